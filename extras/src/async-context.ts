@@ -0,0 +1,19 @@
+import {AsyncResource} from 'async_hooks';
+import {IContextManager} from '../../src';
+
+/**
+ * Context manager for Node.js, based on AsyncResource, to be set with function setContextManager.
+ *
+ * Every asynchronous emit captures the current async context, so any AsyncLocalStorage value,
+ * or a tracing context that relies on async hooks, is restored for every subscriber callback.
+ */
+export class AsyncResourceContextManager implements IContextManager<AsyncResource> {
+
+    capture(): AsyncResource {
+        return new AsyncResource('SubEvent');
+    }
+
+    run<R>(context: AsyncResource, cb: () => R): R {
+        return context.runInAsyncScope(cb);
+    }
+}
@@ -1,4 +1,4 @@
-import {IEmitOptions, SubEventCount} from '../../src';
+import {ICountOptions, IEmitOptions, SubEventCount} from '../../src';
 
 /**
  * Helps supporting any custom EventEmitter-like type.
@@ -13,8 +13,8 @@ interface IEmitterLike {
  *
  * If your event takes multiple arguments, see fromEmitterArgs below.
  */
-export function fromEmitter<T = unknown>(target: IEmitterLike, event: string | symbol, options?: IEmitOptions): SubEventCount<T> {
-    const sec: SubEventCount<T> = new SubEventCount();
+export function fromEmitter<T = unknown>(target: IEmitterLike, event: string | symbol, options?: IEmitOptions, eventOptions?: ICountOptions<T>): SubEventCount<T> {
+    const sec: SubEventCount<T> = new SubEventCount(eventOptions);
     const handler = (a: T) => sec.emit(a, options);
     sec.onCount.subscribe(info => {
         const start = info.prevCount === 0; // fresh start
@@ -35,8 +35,8 @@ export function fromEmitter<T = unknown>(target: IEmitterLike, event: string | s
  *
  * The emitted arguments are passed into the handler as a tuple array.
  */
-export function fromEmitterArgs<T extends unknown[]>(target: IEmitterLike, event: string | symbol, options?: IEmitOptions): SubEventCount<T> {
-    const sec: SubEventCount<T> = new SubEventCount();
+export function fromEmitterArgs<T extends unknown[]>(target: IEmitterLike, event: string | symbol, options?: IEmitOptions, eventOptions?: ICountOptions<T>): SubEventCount<T> {
+    const sec: SubEventCount<T> = new SubEventCount(eventOptions);
     const handler = (...args: any[]) => sec.emit(args as T, options);
     sec.onCount.subscribe(info => {
         const start = info.prevCount === 0; // fresh start
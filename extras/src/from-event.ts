@@ -1,4 +1,4 @@
-import {SubEventCount, IEmitOptions} from '../../src';
+import {SubEventCount, ICountOptions, IEmitOptions} from '../../src';
 
 /**
  * Helps supporting any custom Event-like type.
@@ -11,8 +11,8 @@ interface IEventLike {
 /**
  * Creates a strongly-typed, named DOM Event wrapper.
  */
-export function fromEvent<T extends Event>(target: IEventLike, event: string, options?: IEmitOptions): SubEventCount<T> {
-    const sec: SubEventCount<T> = new SubEventCount();
+export function fromEvent<T extends Event>(target: IEventLike, event: string, options?: IEmitOptions, eventOptions?: ICountOptions<T>): SubEventCount<T> {
+    const sec: SubEventCount<T> = new SubEventCount(eventOptions);
     const handler: EventListener = e => sec.emit(<T>e, options);
     sec.onCount.subscribe(info => {
         const start = info.prevCount === 0; // fresh start
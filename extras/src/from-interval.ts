@@ -1,24 +1,27 @@
-import {IEmitOptions, SubEventCount} from '../../src';
+import {ICountOptions, IEmitOptions, SubEventCount, systemClock} from '../../src';
 
 /**
  * Creates a time-interval event:
  *
  * - The interval re-starts when the first subscriber registers;
  * - The interval stops when the last subscription is cancelled.
+ *
+ * Option `clock` of `eventOptions` is also used for the interval timer.
  */
-export function fromInterval(timeout: number, options?: IEmitOptions): SubEventCount<void> {
-    const sec: SubEventCount<void> = new SubEventCount();
+export function fromInterval(timeout: number, options?: IEmitOptions, eventOptions?: ICountOptions<void>): SubEventCount<void> {
+    const sec: SubEventCount<void> = new SubEventCount(eventOptions);
+    const clock = (eventOptions && eventOptions.clock) ?? systemClock;
     let timer: any;
     sec.onCount.subscribe(info => {
         const start = info.prevCount === 0; // fresh start
         const stop = info.newCount === 0; // no subscriptions left
         if (start) {
-            timer = setInterval(() => {
+            timer = clock.setInterval(() => {
                 sec.emit(undefined, options);
             }, timeout);
         } else {
             if (stop) {
-                clearInterval(timer);
+                clock.clearInterval(timer);
             }
         }
     });
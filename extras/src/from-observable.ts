@@ -0,0 +1,53 @@
+import {ICountOptions, IEmitOptions, SubEventCount} from '../../src';
+
+/**
+ * Helps supporting RxJS Observable, or any other standard Observable-like type.
+ */
+interface IObservableLike<T> {
+    subscribe: (observer: { next: (value: T) => void, error: (err: any) => void, complete: () => void }) => { unsubscribe: () => void };
+}
+
+/**
+ * Creates an event from a standard Observable:
+ *
+ * - The Observable is subscribed to when the first subscriber registers;
+ * - The Observable subscription is unsubscribed when the last subscription is cancelled;
+ * - When the Observable fails, the event fails with the same error, via method `error`;
+ * - When the Observable completes, the event completes, via method `complete`.
+ */
+export function fromObservable<T = unknown>(source: IObservableLike<T>, options?: IEmitOptions, eventOptions?: ICountOptions<T>): SubEventCount<T> {
+    const sec: SubEventCount<T> = new SubEventCount(eventOptions);
+    let sub: { unsubscribe: () => void } | null = null, active = false;
+    sec.onCount.subscribe(info => {
+        const start = info.prevCount === 0; // fresh start
+        const stop = info.newCount === 0; // no subscriptions left
+        if (start) {
+            active = true;
+            const s = source.subscribe({
+                next: value => {
+                    sec.emit(value, options);
+                },
+                error: err => {
+                    sec.error(err);
+                },
+                complete: () => {
+                    sec.complete();
+                }
+            });
+            if (active) {
+                sub = s;
+            } else {
+                s.unsubscribe(); // finished during the subscribe call
+            }
+        } else {
+            if (stop) {
+                active = false;
+                if (sub) {
+                    sub.unsubscribe();
+                    sub = null;
+                }
+            }
+        }
+    });
+    return sec;
+}
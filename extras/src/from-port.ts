@@ -0,0 +1,147 @@
+import {ICountOptions, IEmitOptions, ISubscribable, SubEventCount, Subscription} from '../../src';
+
+/**
+ * Helps supporting MessagePort, BroadcastChannel, Worker or any similar type.
+ */
+interface IPortLike {
+    postMessage: (message: any) => void;
+    addEventListener: (type: 'message', listener: (e: { data: any }) => void) => void;
+    removeEventListener: (type: 'message', listener: (e: { data: any }) => void) => void;
+    start?: () => void;
+}
+
+/**
+ * Options for bridging an event over a port.
+ */
+export interface IPortOptions<T> {
+    /**
+     * Channel name, to bridge multiple events over the same port. Default is empty.
+     */
+    channel?: string;
+
+    /**
+     * Converts event data into a message that can be posted into the port.
+     */
+    serialize?: (data: T) => any;
+
+    /**
+     * Converts a posted message back into event data.
+     */
+    deserialize?: (message: any) => T;
+
+    /**
+     * Options for emitting the received data locally.
+     */
+    emitOptions?: IEmitOptions;
+}
+
+/**
+ * Message posted through the port.
+ */
+interface IPortMessage {
+    channel: string;
+    type: 'listen' | 'data';
+    active?: boolean;
+    id?: string;
+    data?: any;
+}
+
+/**
+ * Counter of receivers created with fromPort, for their unique ids.
+ */
+let lastReceiver = 0;
+
+/**
+ * Adds a message listener to the port, and returns a function that removes it.
+ */
+function listen(port: IPortLike, channel: string, cb: (msg: IPortMessage) => void): () => void {
+    const handler = (e: { data: any }) => {
+        const msg = e.data;
+        if (msg && typeof msg === 'object' && msg.channel === channel) {
+            cb(msg);
+        }
+    };
+    port.addEventListener('message', handler);
+    if (typeof port.start === 'function') {
+        port.start();
+    }
+    return () => port.removeEventListener('message', handler);
+}
+
+/**
+ * Creates the receiving side of an event bridged over a port, as a twin of the event
+ * on the other side, which is linked to the port via function toPort.
+ *
+ * - The port listener is added, and the other side is asked to start posting data,
+ *   when the first subscriber registers;
+ * - The other side is asked to stop posting data, and the port listener is removed,
+ *   when the last subscription is cancelled.
+ */
+export function fromPort<T = unknown>(port: IPortLike, options?: IPortOptions<T>, eventOptions?: ICountOptions<T>): SubEventCount<T> {
+    const {channel = '', deserialize = (m: any) => m as T, emitOptions} = options || {};
+    const sec: SubEventCount<T> = new SubEventCount(eventOptions);
+    const id = `${++lastReceiver}-${Math.random().toString(36).substr(2)}`; // unique across all sides of the port
+    let stop: () => void;
+    sec.onCount.subscribe(info => {
+        const start = info.prevCount === 0; // fresh start
+        const end = info.newCount === 0; // no subscriptions left
+        if (start) {
+            stop = listen(port, channel, msg => {
+                if (msg.type === 'data') {
+                    sec.emit(deserialize(msg.data), emitOptions);
+                }
+            });
+            port.postMessage({channel, type: 'listen', active: true, id});
+        } else {
+            if (end) {
+                port.postMessage({channel, type: 'listen', active: false, id});
+                stop();
+            }
+        }
+    });
+    return sec;
+}
+
+/**
+ * Links an event to a port, to post its data to the twin events created with function
+ * fromPort on the other side, which can be many, like with BroadcastChannel.
+ *
+ * The event is subscribed to only while any of the twin events has subscribers.
+ *
+ * Cancelling the returned subscription removes the port listener, and cancels
+ * the subscription to the event.
+ */
+export function toPort<T = unknown>(event: ISubscribable<T>, port: IPortLike, options?: IPortOptions<T>): Subscription {
+    const {channel = '', serialize = (d: T) => d as any} = options || {};
+    const receivers: string[] = []; // ids of the twin events with subscribers
+    let sub: Subscription | null = null;
+    const stop = listen(port, channel, msg => {
+        if (msg.type === 'listen') {
+            const id = msg.id ?? '', i = receivers.indexOf(id);
+            if (msg.active && i === -1) {
+                receivers.push(id);
+            }
+            if (!msg.active && i >= 0) {
+                receivers.splice(i, 1);
+            }
+            if (receivers.length && !sub) {
+                sub = event.subscribe(data => {
+                    port.postMessage({channel, type: 'data', data: serialize(data)});
+                });
+            }
+            if (!receivers.length && sub) {
+                sub.cancel();
+                sub = null;
+            }
+        }
+    });
+    const cancel = () => {
+        stop();
+        receivers.length = 0;
+        if (sub) {
+            sub.cancel();
+            sub = null;
+        }
+    };
+    return new Subscription({cancel, sub: {cancel: () => null}});
+}
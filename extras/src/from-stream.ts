@@ -0,0 +1,245 @@
+import {StringDecoder} from 'string_decoder';
+import {EventConsumer, IEventOptions, ISubContext, ISubscribable, SubEvent, Subscription} from '../../src';
+
+/**
+ * Helps supporting any duplex stream, like a socket, child process stdio
+ * or a WebSocket-like wrapper.
+ */
+interface IStreamLike {
+    write: (chunk: string) => any;
+    addListener: (event: 'data', listener: (chunk: any) => void) => any;
+    removeListener: (event: 'data', listener: (chunk: any) => void) => any;
+}
+
+/**
+ * Options for serving and consuming an event over a stream.
+ */
+export interface IStreamOptions<T> {
+    /**
+     * Converts event data into a JSON-compatible value.
+     */
+    serialize?: (data: T) => any;
+
+    /**
+     * Converts a JSON-compatible value back into event data.
+     */
+    deserialize?: (value: any) => T;
+
+    /**
+     * Handler of protocol errors, including those reported by the other side.
+     */
+    onError?: (err: Error) => void;
+}
+
+/**
+ * Protocol frame, sent as one line of JSON.
+ *
+ * - `subscribe` - client requests a new remote subscription;
+ * - `unsubscribe` - either side cancels a remote subscription;
+ * - `data` - server delivers data for a remote subscription;
+ * - `error` - either side reports a protocol error;
+ * - `cancelAll` - server cancels all remote subscriptions, as it stops serving the event.
+ */
+interface IFrame {
+    type: 'subscribe' | 'unsubscribe' | 'data' | 'error' | 'cancelAll';
+    id?: number;
+    name?: string;
+    data?: any;
+    message?: string;
+}
+
+/**
+ * Adds a frame listener to the stream, and returns a function that removes it.
+ */
+function listen(stream: IStreamLike, cb: (frame: IFrame) => void, onError: (err: Error) => void): () => void {
+    const decoder = new StringDecoder('utf8');
+    let text = '';
+    const handler = (chunk: any) => {
+        const lines = (text + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split('\n');
+        text = lines.pop() as string;
+        lines.forEach(line => {
+            let frame: IFrame;
+            try {
+                frame = JSON.parse(line);
+            } catch (e) {
+                onError(new Error(`Invalid frame: ${line}`));
+                return;
+            }
+            if (!frame || typeof frame !== 'object' || typeof frame.type !== 'string') {
+                onError(new Error(`Invalid frame: ${line}`)); // valid JSON, but not a frame
+                return;
+            }
+            cb(frame);
+        });
+    };
+    stream.addListener('data', handler);
+    return () => stream.removeListener('data', handler);
+}
+
+/**
+ * Sends one frame into the stream.
+ */
+function send(stream: IStreamLike, frame: IFrame) {
+    stream.write(JSON.stringify(frame) + '\n');
+}
+
+/**
+ * Client-side event, with every subscription mirrored by a remote subscription.
+ */
+class RemoteEvent<T> extends SubEvent<T> {
+
+    /**
+     * Set while cancelling subscriptions as requested by the server.
+     */
+    private _remoteCancel = false;
+
+    private _lastId = 0;
+
+    private _stop?: () => void;
+
+    constructor(private _stream: IStreamLike, private _opts: IStreamOptions<T>, eventOptions?: IEventOptions<T>) {
+        super({
+            ...eventOptions,
+            onSubscribe: ctx => (ctx.event as RemoteEvent<T>)._onSubscribe(ctx),
+            onCancel: ctx => (ctx.event as RemoteEvent<T>)._onCancel(ctx)
+        });
+    }
+
+    private _onSubscribe(ctx: ISubContext<T>) {
+        if (!this.count) {
+            this._stop = listen(this._stream, frame => this._receive(frame), err => this._error(err));
+        }
+        ctx.data = ++this._lastId;
+        send(this._stream, {type: 'subscribe', id: ctx.data, name: ctx.name});
+    }
+
+    private _onCancel(ctx: ISubContext<T>) {
+        if (!this._remoteCancel) {
+            send(this._stream, {type: 'unsubscribe', id: ctx.data});
+        }
+        if (!this.count && this._stop) {
+            this._stop();
+            this._stop = undefined;
+        }
+    }
+
+    private _receive(frame: IFrame) {
+        const sub = this._subs.filter(s => s.data === frame.id)[0];
+        switch (frame.type) {
+            case 'data': {
+                if (sub) {
+                    const {deserialize = (v: any) => v as T} = this._opts;
+                    let data: T;
+                    try {
+                        data = deserialize(frame.data);
+                    } catch (err) {
+                        this._error(err);
+                        break;
+                    }
+                    this._call(sub, [data], err => this._error(err));
+                }
+                break;
+            }
+            case 'unsubscribe':
+                if (sub) {
+                    this._remoteCancel = true;
+                    this._cancelSub(sub);
+                    this._remoteCancel = false;
+                }
+                break;
+            case 'cancelAll':
+                this._remoteCancel = true;
+                this.cancelAll();
+                this._remoteCancel = false;
+                break;
+            case 'error':
+                this._error(new Error(frame.message));
+                break;
+            default:
+                this._error(new Error(`Invalid frame: ${JSON.stringify(frame)}`));
+                break;
+        }
+    }
+
+    private _error(err: Error) {
+        if (typeof this._opts.onError === 'function') {
+            this._opts.onError(err);
+        }
+    }
+}
+
+/**
+ * Creates the client side of an event served over a stream by function toStream.
+ *
+ * Every subscription made through the returned consumer creates a remote subscription
+ * on the server side, with the same `name`. The stream listener is added when the
+ * first subscriber registers, and removed when the last subscription is cancelled.
+ *
+ * Options `onSubscribe` and `onCancel` of `eventOptions` are replaced, as they are used internally.
+ */
+export function fromStream<T = unknown>(stream: IStreamLike, options?: IStreamOptions<T>, eventOptions?: IEventOptions<T>): EventConsumer<T> {
+    return new RemoteEvent<T>(stream, options || {}, eventOptions).toConsumer();
+}
+
+/**
+ * Serves an event over a stream, for the client side created with function fromStream.
+ *
+ * Every remote subscription becomes a subscription to the event, so it is reported by
+ * the event's `onSubscribe` and `onCancel` hooks, and by its `getStat`, and cancelling
+ * it on the server side cancels it on the client side.
+ *
+ * Cancelling the returned subscription cancels all remote subscriptions, notifies
+ * the client, and removes the stream listener.
+ */
+export function toStream<T = unknown>(event: ISubscribable<T>, stream: IStreamLike, options?: IStreamOptions<T>): Subscription {
+    const {serialize = (d: T) => d as any, onError = () => null} = options || {};
+    const subs = new Map<number, Subscription>();
+    const reply = (err: Error) => {
+        send(stream, {type: 'error', message: err.message});
+        onError(err);
+    };
+    const stop = listen(stream, frame => {
+        const id = frame.id as number;
+        switch (frame.type) {
+            case 'subscribe':
+                if (subs.has(id)) {
+                    reply(new Error(`Duplicate subscription id: ${id}`));
+                    break;
+                }
+                subs.set(id, event.subscribe(data => {
+                    send(stream, {type: 'data', id, data: serialize(data)});
+                }, {
+                    name: frame.name,
+                    onCancel: () => {
+                        if (subs.delete(id)) {
+                            send(stream, {type: 'unsubscribe', id}); // cancelled on this side
+                        }
+                    }
+                }));
+                break;
+            case 'unsubscribe': {
+                const sub = subs.get(id);
+                if (sub) {
+                    subs.delete(id);
+                    sub.cancel();
+                }
+                break;
+            }
+            case 'error':
+                onError(new Error(frame.message));
+                break;
+            default:
+                reply(new Error(`Invalid frame: ${JSON.stringify(frame)}`));
+                break;
+        }
+    }, reply);
+    const cancel = () => {
+        stop();
+        const copy: Subscription[] = [];
+        subs.forEach(s => copy.push(s));
+        subs.clear();
+        copy.forEach(s => s.cancel());
+        send(stream, {type: 'cancelAll'});
+    };
+    return new Subscription({cancel, sub: {cancel: () => null}});
+}
@@ -1,13 +1,16 @@
-import {IEmitOptions, ISubContext, ISubOptions, SubEvent, SubFunction, Subscription} from '../../src';
+import {IEmitOptions, IEventOptions, ISubContext, ISubOptions, SubEvent, SubFunction, Subscription, systemClock} from '../../src';
 
 /**
  * Returns a new TimeoutEvent that triggers a fresh setTimeout on each subscribe,
  * and cancels the subscription after the timer event.
  *
  * And if the client cancels the subscription first, the event won't happen.
+ *
+ * Options `onSubscribe` and `onCancel` of `eventOptions` are replaced, as they are used internally,
+ * while option `clock` is also used for the timers.
  */
-export function fromTimeout(timeout: number = 0, options?: IEmitOptions): TimeoutEvent {
-    return new TimeoutEvent(timeout, options);
+export function fromTimeout(timeout: number = 0, options?: IEmitOptions, eventOptions?: IEventOptions<void>): TimeoutEvent {
+    return new TimeoutEvent(timeout, options, eventOptions);
 }
 
 /**
@@ -16,16 +19,17 @@ export function fromTimeout(timeout: number = 0, options?: IEmitOptions): Timeou
  * A new timeout is started for every fresh subscriber.
  */
 export class TimeoutEvent extends SubEvent<void> {
-    constructor(timeout: number = 0, options?: IEmitOptions) {
+    constructor(timeout: number = 0, options?: IEmitOptions, eventOptions?: IEventOptions<void>) {
+        const clock = (eventOptions && eventOptions.clock) ?? systemClock;
         const onSubscribe = (ctx: ISubContext<void>) => {
-            ctx.data = setTimeout(() => {
+            ctx.data = clock.setTimeout(() => {
                 ctx.event.emit(undefined, options);
             }, timeout);
         };
         const onCancel = (ctx: ISubContext<void>) => {
-            clearTimeout(ctx.data);
+            clock.clearTimeout(ctx.data);
         };
-        super({onSubscribe, onCancel});
+        super({...eventOptions, onSubscribe, onCancel});
     }
 
     subscribe(cb: SubFunction<void>, options?: ISubOptions): Subscription {
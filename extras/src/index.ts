@@ -2,3 +2,9 @@ export {fromEvent} from './from-event';
 export {fromEmitter, fromEmitterArgs} from './from-emitter';
 export {fromInterval} from './from-interval';
 export {TimeoutEvent, fromTimeout} from './from-timeout';
+export {fromPort, toPort, IPortOptions} from './from-port';
+export {fromStream, toStream, IStreamOptions} from './from-stream';
+export {fromObservable} from './from-observable';
+export {AsyncResourceContextManager} from './async-context';
+export {VirtualClock, EventRecorder, IRecord, IMarbleOptions, recordEvent} from './testing';
+export {TrafficRecorder, ITrafficEntry, IReplayTrafficOptions, recordTraffic, parseTraffic, replayTraffic} from './recorder';
@@ -0,0 +1,328 @@
+import {EmitSchedule, IClock, IEmitAsyncOptions, IEmitOptions, ISubOptions, SubEvent, SubFunction, Subscription, systemClock} from '../../src';
+
+/**
+ * One entry of the recorded event traffic.
+ */
+export interface ITrafficEntry<T = unknown> {
+    /**
+     * Time in ms, since the start of the recording.
+     */
+    time: number;
+
+    /**
+     * Type of the entry:
+     *
+     * - `emit` - data has been emitted
+     * - `subscribe` - a subscription has been created
+     * - `cancel` - a subscription has been cancelled
+     * - `complete` - the event has been completed
+     * - `error` - the event has been failed
+     */
+    type: 'emit' | 'subscribe' | 'cancel' | 'complete' | 'error';
+
+    /**
+     * Emitted data, for type `emit`.
+     */
+    data?: T;
+
+    /**
+     * Emit schedule, for type `emit`, when it was set.
+     */
+    schedule?: EmitSchedule;
+
+    /**
+     * Indicates, for type `emit`, that data has been emitted via method `emitAsync`.
+     */
+    async?: boolean;
+
+    /**
+     * Subscription name, for types `subscribe` and `cancel`, when it was set.
+     */
+    name?: string;
+
+    /**
+     * Error message, for type `error`.
+     */
+    error?: string;
+}
+
+/**
+ * Records traffic of an event, i.e. all emitted data, subscriptions and their cancellations,
+ * plus completion or failure of the event, with timestamps, to be serialised as NDJSON,
+ * and then replayed via [[replayTraffic]].
+ *
+ * It works by wrapping methods of the event object, until [[stop]] is called.
+ * Data emitted via `emitAsync` is recorded as type `emit`, with flag `async` set.
+ * Data is recorded as it is, so it must be JSON-serialisable for [[toNDJSON]] to work.
+ * Of the emit options, only `schedule` is recorded, when it is one of the EmitSchedule values.
+ */
+export class TrafficRecorder<T = unknown> {
+
+    /**
+     * All the recorded entries.
+     */
+    readonly entries: ITrafficEntry<T>[] = [];
+
+    private _start: number;
+
+    private _restore: Array<() => void> = [];
+
+    /**
+     * Starts recording.
+     *
+     * @param event
+     * Event to be recorded.
+     *
+     * @param _clock
+     * Clock for the timestamps, to replace the system one.
+     */
+    constructor(event: SubEvent<T>, private _clock: IClock = systemClock) {
+        this._start = _clock.now();
+        const {emit, emitAsync, subscribe, complete, error} = event;
+        this._patch(event, 'emit', (data: T, options?: IEmitOptions) => {
+            const schedule = options && options.schedule;
+            this._add(typeof schedule === 'string' ? {type: 'emit', data, schedule} : {type: 'emit', data});
+            return emit.call(event, data, options);
+        });
+        this._patch(event, 'emitAsync', (data: T, options?: IEmitAsyncOptions) => {
+            this._add({type: 'emit', data, async: true});
+            return emitAsync.call(event, data, options);
+        });
+        this._patch(event, 'subscribe', (cb: SubFunction<T>, options?: ISubOptions): Subscription => {
+            if (typeof (options ?? {}) !== 'object') {
+                return subscribe.call(event, cb, options); // let it throw
+            }
+            const name = options && options.name;
+            const onCancel = options && options.onCancel;
+            const sub: Subscription = subscribe.call(event, cb, {
+                ...options, onCancel: () => {
+                    this._add({type: 'cancel', name});
+                    if (typeof onCancel === 'function') {
+                        onCancel();
+                    }
+                }
+            });
+            if (sub.live) {
+                this._add({type: 'subscribe', name}); // not for a closed event or an aborted signal
+            }
+            return sub;
+        });
+        this._patch(event, 'complete', () => {
+            if (!event.closed) {
+                this._add({type: 'complete'});
+            }
+            return complete.call(event);
+        });
+        this._patch(event, 'error', (err: any) => {
+            if (!event.closed) {
+                this._add({type: 'error', error: err instanceof Error ? err.message : String(err)});
+            }
+            return error.call(event, err);
+        });
+    }
+
+    /**
+     * Indicates whether the recording is in progress.
+     */
+    get recording(): boolean {
+        return this._restore.length > 0;
+    }
+
+    /**
+     * Stops recording, and restores the original methods of the event object.
+     *
+     * @returns
+     * - `true` - recording has been stopped
+     * - `false` - nothing happened, as it was stopped already
+     */
+    stop(): boolean {
+        if (!this._restore.length) {
+            return false;
+        }
+        this._restore.forEach(r => r());
+        this._restore = [];
+        return true;
+    }
+
+    /**
+     * Serialises all the recorded entries as NDJSON, with one JSON entry per line.
+     */
+    toNDJSON(): string {
+        return this.entries.map(e => JSON.stringify(e) + '\n').join('');
+    }
+
+    private _add(entry: { type: ITrafficEntry<T>['type'], data?: T, schedule?: EmitSchedule, async?: boolean, name?: string, error?: string }) {
+        if (this.recording) {
+            this.entries.push({time: this._clock.now() - this._start, ...entry});
+        }
+    }
+
+    private _patch(event: SubEvent<T>, key: 'emit' | 'emitAsync' | 'subscribe' | 'complete' | 'error', method: Function) {
+        const e: any = event;
+        const own = Object.prototype.hasOwnProperty.call(e, key), prev = e[key];
+        e[key] = method;
+        this._restore.push(() => {
+            if (own) {
+                e[key] = prev;
+            } else {
+                delete e[key];
+            }
+        });
+    }
+}
+
+/**
+ * Starts recording traffic of the event.
+ *
+ * ```ts
+ * const rec = recordTraffic(onMessage);
+ *
+ * // later, to save the traffic:
+ * fs.writeFileSync('traffic.ndjson', rec.toNDJSON());
+ * rec.stop();
+ * ```
+ */
+export function recordTraffic<T>(event: SubEvent<T>, clock?: IClock): TrafficRecorder<T> {
+    return new TrafficRecorder(event, clock);
+}
+
+/**
+ * Parses traffic entries from NDJSON, as produced by [[TrafficRecorder.toNDJSON]].
+ */
+export function parseTraffic<T = unknown>(ndjson: string): ITrafficEntry<T>[] {
+    return ndjson.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+}
+
+/**
+ * Options for [[replayTraffic]].
+ */
+export interface IReplayTrafficOptions {
+    /**
+     * Replay speed, relative to the original one. Default is 1.
+     *
+     * For example, 2 replays twice as fast, while `Infinity` replays with zero delays.
+     */
+    speed?: number;
+
+    /**
+     * Clock for the replay timers, like VirtualClock, for a deterministic replay.
+     */
+    clock?: IClock;
+
+    /**
+     * Replays subscriptions and their cancellations, with no-op subscribers,
+     * which is needed when the event reacts to subscriptions, like lazy events do.
+     *
+     * By default, only data, completion and failure are replayed.
+     */
+    subscriptions?: boolean;
+
+    /**
+     * Abort signal, to stop the replay, and reject with `Replay aborted` error (named `AbortError`).
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Replays recorded traffic into an event, usually a fresh one, with the original timing,
+ * or accelerated, via option `speed`.
+ *
+ * ```ts
+ * const clock = new VirtualClock();
+ * const event = new SubEvent<string>();
+ *
+ * const done = replayTraffic(event, fs.readFileSync('traffic.ndjson', 'utf8'), {clock});
+ *
+ * clock.advanceBy(1000); // replays the first second
+ * ```
+ *
+ * Failures are replayed as `Error` objects, with the recorded messages, and data recorded
+ * from `emitAsync` is replayed via `emitAsync`.
+ *
+ * @param event
+ * Event to replay the traffic into.
+ *
+ * @param traffic
+ * Recorded entries, or NDJSON with them.
+ *
+ * @param options
+ * Replay options.
+ *
+ * @returns
+ * Promise that resolves when all the entries have been replayed, or rejects
+ * when the replay has been aborted, or emitting has thrown an error.
+ */
+export function replayTraffic<T>(event: SubEvent<T>, traffic: ITrafficEntry<T>[] | string, options?: IReplayTrafficOptions): Promise<void> {
+    const entries = typeof traffic === 'string' ? parseTraffic<T>(traffic) : traffic;
+    const {speed = 1, clock = systemClock, subscriptions = false, signal} = options || {};
+    const subs: Subscription[] = [];
+    const play = (e: ITrafficEntry<T>) => {
+        switch (e.type) {
+            case 'emit':
+                if (e.async) {
+                    event.emitAsync(e.data as T); // not waiting, to keep the recorded timing
+                } else {
+                    event.emit(e.data as T, e.schedule ? {schedule: e.schedule} : undefined);
+                }
+                break;
+            case 'complete':
+                event.complete();
+                break;
+            case 'error':
+                event.error(new Error(e.error));
+                break;
+            case 'subscribe':
+                if (subscriptions) {
+                    subs.push(event.subscribe(() => null, {name: e.name}));
+                }
+                break;
+            case 'cancel':
+                if (subscriptions) {
+                    const i = subs.findIndex(s => s.live && s.name === e.name);
+                    if (i >= 0) {
+                        subs.splice(i, 1)[0].cancel();
+                    }
+                }
+                break;
+        }
+    };
+    return new Promise((resolve, reject) => {
+        let index = 0, timer: any;
+        const onAbort = () => {
+            clock.clearTimeout(timer);
+            const err = new Error(`Replay aborted.`);
+            err.name = 'AbortError';
+            reject(err);
+        };
+        const next = () => {
+            if (index === entries.length) {
+                if (signal) {
+                    signal.removeEventListener('abort', onAbort);
+                }
+                resolve();
+                return;
+            }
+            const prev = index ? entries[index - 1].time : 0;
+            timer = clock.setTimeout(() => {
+                try {
+                    play(entries[index++]);
+                } catch (err) {
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+                    reject(err);
+                    return;
+                }
+                next();
+            }, Math.max(entries[index].time - prev, 0) / speed);
+        };
+        if (signal) {
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+            signal.addEventListener('abort', onAbort);
+        }
+        next();
+    });
+}
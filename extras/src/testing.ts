@@ -0,0 +1,312 @@
+import {IClock, IScheduler, ISubscribable, Subscription, systemClock} from '../../src';
+
+/**
+ * Timer of the virtual clock.
+ */
+interface IVirtualTimer {
+    id: number;
+    time: number;
+    interval: number;
+    cb: () => void;
+}
+
+/**
+ * Virtual clock for tests, with time that moves only via advanceBy or flush.
+ *
+ * It can be passed in as option `clock` into any event constructor, and the extras
+ * that support it, as well as option `schedule` of the emit options, as a scheduler
+ * of zero-delay timers.
+ */
+export class VirtualClock implements IClock, IScheduler {
+
+    private _timers: IVirtualTimer[] = [];
+
+    private _lastId = 0;
+
+    /**
+     * @param _now
+     * Initial time in ms. Default is 0.
+     */
+    constructor(private _now: number = 0) {
+    }
+
+    /**
+     * Current virtual time.
+     */
+    now(): number {
+        return this._now;
+    }
+
+    /**
+     * Number of active timers.
+     */
+    get pending(): number {
+        return this._timers.length;
+    }
+
+    setTimeout(cb: () => void, ms: number): number {
+        return this._add(cb, ms, 0);
+    }
+
+    clearTimeout(handle: number) {
+        this._timers = this._timers.filter(t => t.id !== handle);
+    }
+
+    setInterval(cb: () => void, ms: number): number {
+        return this._add(cb, ms, Math.max(ms, 1));
+    }
+
+    clearInterval(handle: number) {
+        this.clearTimeout(handle);
+    }
+
+    /**
+     * Schedules the callback as a zero-delay timer, to be run via flush or advanceBy.
+     */
+    schedule(cb: () => void) {
+        this.setTimeout(cb, 0);
+    }
+
+    /**
+     * Moves the time forward, while running all the timers that become due,
+     * in the order of their time.
+     *
+     * @returns
+     * Number of timer callbacks that have been run.
+     */
+    advanceBy(ms: number): number {
+        const end = this._now + Math.max(ms, 0);
+        let n = 0;
+        for (let t = this._next(end); t; t = this._next(end)) {
+            this._now = t.time;
+            if (t.interval) {
+                t.time += t.interval;
+            } else {
+                this.clearTimeout(t.id);
+            }
+            n++;
+            t.cb();
+        }
+        this._now = end;
+        return n;
+    }
+
+    /**
+     * Runs all the timers that are due at the current time, including zero-delay timers
+     * created while running them, without moving the time forward.
+     *
+     * @returns
+     * Number of timer callbacks that have been run.
+     */
+    flush(): number {
+        return this.advanceBy(0);
+    }
+
+    private _add(cb: () => void, ms: number, interval: number): number {
+        const id = ++this._lastId;
+        this._timers.push({id, time: this._now + Math.max(ms || 0, 0), interval, cb});
+        return id;
+    }
+
+    /**
+     * Finds the earliest timer that is due by the end time.
+     */
+    private _next(end: number): IVirtualTimer | undefined {
+        let next: IVirtualTimer | undefined;
+        this._timers.forEach(t => {
+            if (t.time <= end && (!next || t.time < next.time)) {
+                next = t;
+            }
+        });
+        return next;
+    }
+}
+
+/**
+ * One notification recorded by EventRecorder.
+ */
+export interface IRecord<T> {
+    /**
+     * Time of the notification, according to the recorder's clock.
+     */
+    time: number;
+
+    /**
+     * Type of the notification:
+     *
+     * - `data` - data received
+     * - `complete` - the event has completed
+     * - `error` - the event has failed
+     * - `cancel` - the subscription has been cancelled, other than via [[EventRecorder.cancel]]
+     */
+    type: 'data' | 'complete' | 'error' | 'cancel';
+
+    /**
+     * Data received, for type `data`.
+     */
+    data?: T;
+
+    /**
+     * The error, for type `error`.
+     */
+    error?: any;
+}
+
+/**
+ * Options for marble diagrams of the recorded notifications.
+ */
+export interface IMarbleOptions<T> {
+    /**
+     * Duration of one marble frame / character, in ms. Default is 1.
+     */
+    frame?: number;
+
+    /**
+     * Map of marble characters to the data they represent. Data that is not in the map
+     * is represented by its string value, which must be a single character.
+     */
+    values?: { [char: string]: T };
+}
+
+/**
+ * Records all notifications from an event, with their time, to verify them in tests.
+ *
+ * Marble diagrams of the notifications use one character per frame:
+ *
+ * - `-` - nothing happened
+ * - a value character - data received, see option `values`
+ * - `|` - the event has completed
+ * - `#` - the event has failed
+ * - `!` - the subscription has been cancelled, other than via method [[cancel]]
+ * - `(ab)` - multiple notifications within the same frame
+ */
+export class EventRecorder<T = unknown> {
+
+    /**
+     * All the recorded notifications.
+     */
+    readonly records: IRecord<T>[] = [];
+
+    private _start: number;
+
+    private _sub: Subscription;
+
+    private _stopped = false;
+
+    /**
+     * Subscribes to the event, and starts recording.
+     *
+     * @param event
+     * Event to be recorded.
+     *
+     * @param _clock
+     * Clock for the notification time, like VirtualClock, to make it deterministic.
+     */
+    constructor(event: ISubscribable<T>, private _clock: IClock = systemClock) {
+        this._start = _clock.now();
+        this._sub = event.subscribe(data => this._record({type: 'data', data}), {
+            onComplete: () => this._record({type: 'complete'}, true),
+            onError: error => this._record({type: 'error', error}, true),
+            onCancel: () => this._record({type: 'cancel'})
+        });
+    }
+
+    /**
+     * All data received.
+     */
+    get values(): T[] {
+        return this.records.filter(r => r.type === 'data').map(r => r.data as T);
+    }
+
+    /**
+     * Stops recording, by cancelling the subscription, which is not recorded.
+     */
+    cancel() {
+        this._stopped = true;
+        this._sub.cancel();
+    }
+
+    /**
+     * Returns the marble diagram of the recorded notifications, with time
+     * counted from the start of the recording.
+     *
+     * @throws Error
+     * When recorded data is not in option `values`, and its string value is not a single character.
+     */
+    toMarbles(options?: IMarbleOptions<T>): string {
+        const {frame = 1, values = {}} = options || {};
+        const frames: string[][] = [];
+        this.records.forEach(r => {
+            const i = Math.floor((r.time - this._start) / frame);
+            while (frames.length <= i) {
+                frames.push([]);
+            }
+            frames[i].push(r.type === 'data' ? charOf(r.data, values) : marbleChars[r.type]);
+        });
+        return frames.map(f => f.length ? (f.length > 1 ? `(${f.join('')})` : f[0]) : '-').join('');
+    }
+
+    /**
+     * Verifies the marble diagram of the recorded notifications.
+     *
+     * @throws Error
+     * When the recorded marble diagram is different, or it cannot be created, see [[toMarbles]].
+     */
+    expectMarbles(expected: string, options?: IMarbleOptions<T>) {
+        const actual = this.toMarbles(options);
+        if (actual !== expected) {
+            throw new Error(`Expected marbles "${expected}", but recorded "${actual}".`);
+        }
+    }
+
+    private _record(r: { type: IRecord<T>['type'], data?: T, error?: any }, last?: boolean) {
+        if (!this._stopped) {
+            this.records.push({time: this._clock.now(), ...r});
+            this._stopped = !!last;
+        }
+    }
+}
+
+/**
+ * Marble characters of the notifications without data.
+ */
+const marbleChars = {complete: '|', error: '#', cancel: '!'};
+
+/**
+ * Gets the marble character for the data.
+ */
+function charOf<T>(data: any, values: { [char: string]: T }): string {
+    const keys = Object.keys(values);
+    for (let i = 0; i < keys.length; i++) {
+        const v: any = values[keys[i]];
+        if (v === data || (typeof v === 'object' && JSON.stringify(v) === JSON.stringify(data))) {
+            return keys[i];
+        }
+    }
+    const s = String(data);
+    if (s.length !== 1) {
+        throw new Error(`No single-character marble for value: ${JSON.stringify(data)}.`);
+    }
+    return s;
+}
+
+/**
+ * Starts recording all notifications from the event, to verify them in tests.
+ *
+ * ```ts
+ * const clock = new VirtualClock();
+ * const e = new SubEvent<number>({clock});
+ *
+ * const rec = recordEvent(e, clock);
+ *
+ * e.emit(1);
+ * clock.advanceBy(2);
+ * e.emit(2);
+ * e.complete();
+ *
+ * rec.expectMarbles('1-(2|)');
+ * ```
+ */
+export function recordEvent<T = unknown>(event: ISubscribable<T>, clock?: IClock): EventRecorder<T> {
+    return new EventRecorder(event, clock);
+}
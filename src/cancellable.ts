@@ -0,0 +1,233 @@
+import {IEmitAsyncOptions, IEmitOptions, IEmitState, ISubOptions, ISubResult, Stat, SubEvent} from './event';
+import {Subscription} from './sub';
+
+/**
+ * @interface IEmitControl
+ * @description
+ * Delivery control, passed into every subscriber of [[CancellableEvent]],
+ * together with the event data.
+ */
+export interface IEmitControl {
+    /**
+     * Stops delivery of the data to all the remaining subscribers.
+     */
+    stopPropagation(): void;
+
+    /**
+     * Signals to the emitter that the default action should not be taken.
+     */
+    preventDefault(): void;
+
+    /**
+     * Indicates whether [[stopPropagation]] has been called.
+     */
+    readonly stopped: boolean;
+
+    /**
+     * Indicates whether [[preventDefault]] has been called.
+     */
+    readonly defaultPrevented: boolean;
+}
+
+/**
+ * Subscription callback function type for [[CancellableEvent]].
+ */
+export type CancellableFunction<T> = (data: T, ctrl: IEmitControl) => any;
+
+/**
+ * @interface IEmitStatus
+ * @description
+ * Delivery status, as reported by [[CancellableEvent.emit]] into `onStatus` callback.
+ */
+export interface IEmitStatus {
+    /**
+     * Number of subscribers that have received the data.
+     */
+    count: number;
+
+    /**
+     * Indicates whether the delivery was stopped by one of the subscribers.
+     */
+    stopped: boolean;
+
+    /**
+     * Indicates whether one of the subscribers prevented the default action.
+     */
+    defaultPrevented: boolean;
+}
+
+/**
+ * @interface ICancellableEmitOptions
+ * @description
+ * Options to be used with method [[CancellableEvent.emit]].
+ */
+export interface ICancellableEmitOptions extends IEmitOptions {
+    /**
+     * Notification of the delivery status, once the last recipient has been processed.
+     *
+     * For the `sync` schedule, it is called before method [[emit]] returns.
+     *
+     * ```js
+     * (status: IEmitStatus) => void;
+     * ```
+     *
+     * @param status
+     * `status`: [[IEmitStatus]] - Delivery status.
+     */
+    onStatus?: (status: IEmitStatus) => void;
+}
+
+/**
+ * @interface ICancellableEmitAsyncOptions
+ * @description
+ * Options to be used with method [[CancellableEvent.emitAsync]].
+ */
+export interface ICancellableEmitAsyncOptions extends IEmitAsyncOptions {
+    /**
+     * Notification of the delivery status, once all the recipients have settled.
+     *
+     * ```js
+     * (status: IEmitStatus) => void;
+     * ```
+     *
+     * @param status
+     * `status`: [[IEmitStatus]] - Delivery status.
+     */
+    onStatus?: (status: IEmitStatus) => void;
+}
+
+/**
+ * #### class CancellableEvent\<T = unknown\> extends SubEvent\<T\>
+ *
+ * @class CancellableEvent
+ * @description
+ * Extends [[SubEvent]] for interceptor-style events, where every subscriber receives
+ * a delivery control object, to stop delivery to the remaining subscribers, or to
+ * prevent the default action.
+ *
+ * ```ts
+ * const onInput: CancellableEvent<string> = new CancellableEvent();
+ *
+ * onInput.subscribe((text, ctrl) => {
+ *     if (!text) {
+ *         ctrl.stopPropagation();
+ *         ctrl.preventDefault();
+ *     }
+ * }, {priority: 1});
+ *
+ * onInput.emit(text, {
+ *     onStatus: status => {
+ *         if (!status.defaultPrevented) {
+ *             // take the default action;
+ *         }
+ *     }
+ * });
+ * ```
+ *
+ * It works with all emit schedules, including `async`, for which the remaining deliveries
+ * are skipped, even though they have already been scheduled.
+ */
+export class CancellableEvent<T = unknown> extends SubEvent<T> {
+
+    /**
+     * Subscribes to the event, with the callback receiving the delivery control
+     * as the second parameter.
+     *
+     * @see [[SubEvent.subscribe]]
+     */
+    public subscribe(cb: CancellableFunction<T>, options?: ISubOptions): Subscription {
+        return super.subscribe(cb as (data: T) => any, options);
+    }
+
+    /**
+     * Subscribes to receive just one event, with the callback receiving the delivery
+     * control as the second parameter.
+     *
+     * @see [[SubEvent.once]]
+     */
+    public once(cb: CancellableFunction<T>, options?: ISubOptions): Subscription {
+        const sub = this.subscribe(function (this: any, data: T, ctrl: IEmitControl) {
+            sub.cancel();
+            return cb.call(this, data, ctrl);
+        }, options);
+        return sub;
+    }
+
+    /**
+     * Broadcasts data to all subscribers, according to the emit schedule,
+     * passing each subscriber a delivery control object.
+     *
+     * @param data
+     * Data to be sent, according to the template type.
+     *
+     * @param options
+     * Event-emitting options, extended with `onStatus` notification.
+     *
+     * @returns
+     * The event object itself.
+     */
+    public emit(data: T, options?: ICancellableEmitOptions): this {
+        if (typeof (options ?? {}) !== 'object') {
+            throw new TypeError(Stat.errInvalidOptions);
+        }
+        const {state, ctrl} = this._createControl(options);
+        this._broadcast([data, ctrl], options ?? {}, state);
+        return this;
+    }
+
+    /**
+     * Broadcasts data to all subscribers, passing each subscriber a delivery control object,
+     * and waits for all the values they return to settle.
+     *
+     * When a subscriber calls `stopPropagation` synchronously, or, with option `sequential`,
+     * before its returned value has settled, the remaining subscribers do not receive the data,
+     * and are excluded from the results.
+     *
+     * @param data
+     * Data to be sent, according to the template type.
+     *
+     * @param options
+     * Event-emitting options, extended with `onStatus` notification.
+     *
+     * @returns
+     * Results from all the recipients, in the order of delivery.
+     *
+     * @see [[SubEvent.emitAsync]]
+     */
+    public emitAsync(data: T, options?: ICancellableEmitAsyncOptions): Promise<ISubResult[]> {
+        const {state, ctrl} = this._createControl(options);
+        return this._emitAsync([data, ctrl], options, state);
+    }
+
+    /**
+     * Creates the emit state, with its delivery control object.
+     * @hidden
+     */
+    protected _createControl(options?: { onStatus?: (status: IEmitStatus) => void }): { state: IEmitState, ctrl: IEmitControl } {
+        const onStatus = options && typeof options.onStatus === 'function' && options.onStatus;
+        let defaultPrevented = false;
+        const state: IEmitState = {
+            stopped: false,
+            onDone: count => {
+                if (onStatus) {
+                    onStatus({count, stopped: !!state.stopped, defaultPrevented});
+                }
+            }
+        };
+        const ctrl: IEmitControl = {
+            stopPropagation: () => {
+                state.stopped = true;
+            },
+            preventDefault: () => {
+                defaultPrevented = true;
+            },
+            get stopped() {
+                return !!state.stopped;
+            },
+            get defaultPrevented() {
+                return defaultPrevented;
+            }
+        };
+        return {state, ctrl};
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * @interface IClock
+ * @description
+ * Source of time and timers, as used by events, which can be replaced via option `clock`
+ * of the event constructor, like with a virtual clock for tests.
+ */
+export interface IClock {
+    /**
+     * Current time in ms, as with `Date.now()`.
+     */
+    now(): number;
+
+    /**
+     * Calls the callback once, after the delay in ms, as with `setTimeout`.
+     *
+     * @returns
+     * Timer handle, for [[clearTimeout]].
+     */
+    setTimeout(cb: () => void, ms: number): any;
+
+    /**
+     * Cancels the timer, as with `clearTimeout`.
+     */
+    clearTimeout(handle: any): void;
+
+    /**
+     * Calls the callback repeatedly, every `ms` ms, as with `setInterval`.
+     *
+     * @returns
+     * Timer handle, for [[clearInterval]].
+     */
+    setInterval(cb: () => void, ms: number): any;
+
+    /**
+     * Cancels the repeated timer, as with `clearInterval`.
+     */
+    clearInterval(handle: any): void;
+}
+
+/**
+ * Default clock, based on the system time and timers.
+ */
+export const systemClock: IClock = {
+    now: () => Date.now(),
+    setTimeout: (cb: () => void, ms: number) => setTimeout(cb, ms),
+    clearTimeout: (handle: any) => clearTimeout(handle),
+    setInterval: (cb: () => void, ms: number) => setInterval(cb, ms),
+    clearInterval: (handle: any) => clearInterval(handle)
+};
@@ -0,0 +1,164 @@
+import {SubEventCount} from './count';
+import {ISubscribable, lazyEvent} from './operators';
+import {Subscription} from './sub';
+
+/**
+ * Value type of an event source.
+ */
+export type SourceValue<S> = S extends ISubscribable<infer T> ? T : never;
+
+/**
+ * Tuple of value types of a tuple of event sources.
+ */
+export type SourceValues<S extends ISubscribable<any>[]> = { [K in keyof S]: SourceValue<S[K]> };
+
+/**
+ * Subscribes to every source, and returns the function that cancels all the subscriptions.
+ * Any source failure fails the target.
+ *
+ * @hidden
+ */
+function subscribeAll(target: SubEventCount<any>, sources: ISubscribable<any>[],
+                      next: (data: any, index: number) => void, complete: (index: number) => void): () => void {
+    const subs = sources.map((source, index) => source.subscribe(data => next(data, index), {
+        onComplete: () => complete(index),
+        onError: err => target.error(err)
+    }));
+    return () => subs.forEach(sub => sub.cancel());
+}
+
+/**
+ * Creates an event that re-emits values from all the sources, as they arrive.
+ *
+ * It subscribes to the sources only while it has subscribers of its own.
+ * It completes once all the sources have completed, and fails once any of them fails.
+ *
+ * ```ts
+ * const onInput = merge(onKey, onClick); // SubEventCount<KeyData | ClickData>
+ * ```
+ *
+ * @param sources
+ * Event sources, like [[SubEvent]] or [[EventConsumer]].
+ */
+export function merge<S extends ISubscribable<any>[]>(...sources: S): SubEventCount<SourceValue<S[number]>> {
+    return lazyEvent<SourceValue<S[number]>>(target => {
+        let completed = 0;
+        return subscribeAll(target, sources, data => target.emit(data), () => {
+            if (++completed === sources.length) {
+                target.complete();
+            }
+        });
+    });
+}
+
+/**
+ * Creates an event that emits a tuple of the latest values from all the sources,
+ * every time any of them emits, once all of them have emitted at least once.
+ *
+ * It subscribes to the sources only while it has subscribers of its own.
+ * It completes once all the sources have completed, or when a source completes without
+ * ever emitting, and fails once any of them fails.
+ *
+ * ```ts
+ * const onChange = combineLatest(onWidth, onHeight); // SubEventCount<[number, number]>
+ *
+ * onChange.subscribe(([width, height]) => {});
+ * ```
+ *
+ * @param sources
+ * Event sources, like [[SubEvent]] or [[EventConsumer]].
+ */
+export function combineLatest<S extends ISubscribable<any>[]>(...sources: S): SubEventCount<SourceValues<S>> {
+    return lazyEvent<SourceValues<S>>(target => {
+        const values: any[] = new Array(sources.length);
+        const has: boolean[] = sources.map(() => false);
+        let received = 0, completed = 0;
+        return subscribeAll(target, sources, (data, index) => {
+            if (!has[index]) {
+                has[index] = true;
+                received++;
+            }
+            values[index] = data;
+            if (received === sources.length) {
+                target.emit([...values] as SourceValues<S>);
+            }
+        }, index => {
+            if (++completed === sources.length || !has[index]) {
+                target.complete();
+            }
+        });
+    });
+}
+
+/**
+ * Creates an event that pairs values from all the sources by their order of arrival,
+ * and emits a tuple once every source has emitted its value for the next tuple.
+ * Values that are waiting for a pair are buffered.
+ *
+ * It subscribes to the sources only while it has subscribers of its own, and discards
+ * all the buffered values once unsubscribed. It completes once a completed source has
+ * no more buffered values, and fails once any of the sources fails.
+ *
+ * ```ts
+ * const onPair = zip(onRequest, onResponse); // SubEventCount<[Request, Response]>
+ * ```
+ *
+ * @param sources
+ * Event sources, like [[SubEvent]] or [[EventConsumer]].
+ */
+export function zip<S extends ISubscribable<any>[]>(...sources: S): SubEventCount<SourceValues<S>> {
+    return lazyEvent<SourceValues<S>>(target => {
+        const buffers: any[][] = sources.map(() => []);
+        const done: boolean[] = sources.map(() => false);
+        const checkDone = () => {
+            if (buffers.some((b, i) => done[i] && !b.length)) {
+                target.complete();
+            }
+        };
+        return subscribeAll(target, sources, (data, index) => {
+            buffers[index].push(data);
+            if (buffers.every(b => b.length)) {
+                target.emit(buffers.map(b => b.shift()) as SourceValues<S>);
+                checkDone();
+            }
+        }, index => {
+            done[index] = true;
+            checkDone();
+        });
+    });
+}
+
+/**
+ * Creates an event that mirrors the first source to emit, complete or fail,
+ * and cancels subscriptions to all the other sources.
+ *
+ * It subscribes to the sources only while it has subscribers of its own,
+ * so every fresh subscription starts a new race.
+ *
+ * ```ts
+ * const onResult = race(onCache, onNetwork); // the first one to respond wins
+ * ```
+ *
+ * @param sources
+ * Event sources, like [[SubEvent]] or [[EventConsumer]].
+ */
+export function race<S extends ISubscribable<any>[]>(...sources: S): SubEventCount<SourceValue<S[number]>> {
+    return lazyEvent<SourceValue<S[number]>>(target => {
+        const subs: Subscription[] = [];
+        let winner = -1;
+        const win = (index: number): boolean => {
+            if (winner < 0) {
+                winner = index;
+                subs.forEach((sub, i) => i !== index && sub.cancel());
+            }
+            return winner === index;
+        };
+        for (let i = 0; i < sources.length && winner < 0; i++) {
+            subs.push(sources[i].subscribe(data => win(i) && target.emit(data), {
+                onComplete: () => win(i) && target.complete(),
+                onError: err => win(i) && target.error(err)
+            }));
+        }
+        return () => subs.forEach(sub => sub.cancel());
+    });
+}
@@ -1,4 +1,7 @@
-import {ISubOptions, ISubStat, SubEvent, SubFunction} from './event';
+import {IIterableOptions, ISubDescriptor, ISubOptions, ISubStat, SubEvent, SubFunction} from './event';
+import {SubEventCount} from './count';
+import {Operator} from './operators';
+import {IObservable, observable} from './observable';
 import {Subscription} from './sub';
 import {Private} from './utils';
 
@@ -66,6 +69,13 @@ export class EventConsumer<T = unknown, E extends SubEvent<T> = SubEvent<T>> {
         return pp.get(this).maxSubs;
     }
 
+    /**
+     * Forwards into [[SubEvent.closed]] of the contained event.
+     */
+    get closed(): boolean {
+        return pp.get(this).closed;
+    }
+
     /**
      * Forwards into [[SubEvent.subscribe]] of the contained event.
      */
@@ -83,10 +93,51 @@ export class EventConsumer<T = unknown, E extends SubEvent<T> = SubEvent<T>> {
     /**
      * Forwards into [[SubEvent.toPromise]] of the contained event.
      */
-    toPromise(options?: { name?: string, timeout?: number }): Promise<T> {
+    toPromise(options?: { name?: string, timeout?: number, signal?: AbortSignal }): Promise<T> {
         return pp.get(this).toPromise(options);
     }
 
+    /**
+     * Forwards into [[SubEvent.pipe]] of the contained event.
+     */
+    pipe<A>(op1: Operator<T, A>): SubEventCount<A>;
+    pipe<A, B>(op1: Operator<T, A>, op2: Operator<A, B>): SubEventCount<B>;
+    pipe<A, B, C>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>): SubEventCount<C>;
+    pipe<A, B, C, D>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>, op4: Operator<C, D>): SubEventCount<D>;
+    pipe<A, B, C, D, E>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>, op4: Operator<C, D>, op5: Operator<D, E>): SubEventCount<E>;
+    pipe<R>(...ops: Operator<any, any>[]): SubEventCount<R>;
+    pipe<R>(...ops: Operator<any, any>[]): SubEventCount<R> {
+        return pp.get(this).pipe<R>(...ops);
+    }
+
+    /**
+     * Forwards into [[SubEvent.toAsyncIterable]] of the contained event.
+     */
+    toAsyncIterable(options?: IIterableOptions): AsyncIterableIterator<T> {
+        return pp.get(this).toAsyncIterable(options);
+    }
+
+    /**
+     * Forwards into the default asynchronous iterator of the contained event.
+     */
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return pp.get(this).toAsyncIterable();
+    }
+
+    /**
+     * Forwards into [[SubEvent.toObservable]] of the contained event.
+     */
+    toObservable(): IObservable<T> {
+        return pp.get(this).toObservable();
+    }
+
+    /**
+     * Forwards into the standard Observable interop of the contained event.
+     */
+    [observable](): IObservable<T> {
+        return pp.get(this).toObservable();
+    }
+
     /**
      * Forwards into [[SubEvent.getStat]] of the contained event.
      */
@@ -94,4 +145,11 @@ export class EventConsumer<T = unknown, E extends SubEvent<T> = SubEvent<T>> {
         return pp.get(this).getStat(options);
     }
 
+    /**
+     * Forwards into [[SubEvent.getSubscriptions]] of the contained event.
+     */
+    getSubscriptions(): ISubDescriptor[] {
+        return pp.get(this).getSubscriptions();
+    }
+
 }
@@ -0,0 +1,59 @@
+/**
+ * @interface IContextManager
+ * @description
+ * Pluggable manager of the ambient asynchronous context, like a tracing context,
+ * to be propagated from [[emit]] into subscribers, when the emit schedule is not synchronous.
+ *
+ * Under Node.js, it can be implemented with `AsyncResource` or `AsyncLocalStorage`,
+ * while browser builds can supply their own implementation, like one based on zones.
+ *
+ * @see [[setContextManager]]
+ */
+export interface IContextManager<C = any> {
+    /**
+     * Captures the current context, at the time of the [[emit]] call.
+     */
+    capture(): C;
+
+    /**
+     * Runs the callback within the captured context, and returns the callback's result.
+     *
+     * @param context
+     * Context, as returned by [[capture]].
+     *
+     * @param cb
+     * Callback to be run within the context.
+     */
+    run<R>(context: C, cb: () => R): R;
+}
+
+/**
+ * Current context manager.
+ *
+ * @hidden
+ */
+export let contextManager: IContextManager | null = null;
+
+/**
+ * Sets the global context manager, to propagate the ambient context from [[emit]] into subscribers,
+ * across emit schedules `async` and `next`, and for values waiting in a subscriber queue (option `queue`).
+ * Other synchronous emits need no propagation.
+ *
+ * ```ts
+ * import {setContextManager} from 'sub-events';
+ * import {AsyncResourceContextManager} from 'sub-events/ext';
+ *
+ * setContextManager(new AsyncResourceContextManager());
+ * ```
+ *
+ * @param manager
+ * Context manager, or `null` to remove the current one.
+ *
+ * @returns
+ * The previous context manager, or `null` when there was none.
+ */
+export function setContextManager(manager: IContextManager | null): IContextManager | null {
+    const prev = contextManager;
+    contextManager = manager;
+    return prev;
+}
@@ -1,5 +1,14 @@
 import {Subscription} from './sub';
 import {EventConsumer} from './consumer';
+import {ISubscribable, Operator} from './operators';
+import {EventIterator} from './iterator';
+import {IObservable, observable, toObservable} from './observable';
+import {SubEventCount} from './count';
+import {EventRegistry} from './registry';
+import {contextManager, IContextManager} from './context';
+import {IScheduler} from './schedulers';
+import {IClock, systemClock} from './clock';
+import {WeakOwner} from './utils';
 
 /**
  * Schedule for emitting / broadcasting data to subscribers, to be used by method [[emit]].
@@ -31,6 +40,58 @@ export enum EmitSchedule {
     next = 'next'
 }
 
+/**
+ * Strategy for handling a bounded queue that is full, as used by [[IQueueOptions]].
+ */
+export enum QueueOverflow {
+
+    /**
+     * Removes the oldest value from the queue, to make room for the new one.
+     *
+     * This is the default strategy.
+     */
+    dropOldest = 'dropOldest',
+
+    /**
+     * Discards the new value, keeping the queue unchanged.
+     */
+    dropNewest = 'dropNewest',
+
+    /**
+     * Fails with `Event queue overflow` error.
+     */
+    throw = 'throw'
+}
+
+/**
+ * @interface IQueueOptions
+ * @description
+ * Options for a bounded queue of event values.
+ */
+export interface IQueueOptions {
+    /**
+     * Maximum number of values in the queue. Default is 0, meaning `no limit applies`.
+     */
+    maxSize?: number;
+
+    /**
+     * Strategy for when the queue is full. Default is `dropOldest`.
+     */
+    overflow?: QueueOverflow;
+}
+
+/**
+ * @interface IIterableOptions
+ * @description
+ * Options to be used with method [[toAsyncIterable]].
+ */
+export interface IIterableOptions extends IQueueOptions {
+    /**
+     * Name for the internal subscription. See `name` in [[ISubOptions]].
+     */
+    name?: string;
+}
+
 /**
  * @interface IEmitOptions
  * @description
@@ -38,9 +99,9 @@ export enum EmitSchedule {
  */
 export interface IEmitOptions {
     /**
-     * Event-emitting schedule. Default is `sync`.
+     * Event-emitting schedule, or a custom [[IScheduler]]. Default is `sync`.
      */
-    schedule?: EmitSchedule;
+    schedule?: EmitSchedule | IScheduler;
 
     /**
      * Callback for catching all unhandled errors from subscribers,
@@ -72,6 +133,60 @@ export interface IEmitOptions {
     onFinished?: (count: number) => void;
 }
 
+/**
+ * @interface IEmitAsyncOptions
+ * @description
+ * Options to be used with method [[emitAsync]].
+ */
+export interface IEmitAsyncOptions {
+    /**
+     * Makes delivery sequential: each subscriber receives the data only after
+     * the value returned by the previous subscriber has settled.
+     *
+     * By default, all subscribers receive the data at once, and settle in parallel.
+     */
+    sequential?: boolean;
+
+    /**
+     * Sets timeout in ms (when `timeout` >= 0), to auto-reject with `Event timed out` error,
+     * if not all subscribers have settled by then.
+     */
+    timeout?: number;
+
+    /**
+     * Abort signal, to stop waiting, and reject with `Event aborted` error (named `AbortError`),
+     * if not all subscribers have settled by the time the signal is aborted.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * @interface ISubResult
+ * @description
+ * Result of delivering data to one subscriber, as reported by method [[emitAsync]].
+ */
+export interface ISubResult {
+    /**
+     * Subscription name, if one was specified with method [[subscribe]].
+     */
+    name?: string;
+
+    /**
+     * Settlement status of the value returned by the subscriber.
+     */
+    status: 'fulfilled' | 'rejected';
+
+    /**
+     * Value returned by the subscriber, or what its promise resolved with, when `status` = `fulfilled`.
+     */
+    value?: any;
+
+    /**
+     * Error thrown by the subscriber, or what its promise rejected with, when `status` = `rejected`.
+     */
+    reason?: any;
+}
+
 /**
  * @interface ISubContext
  * @description
@@ -108,9 +223,17 @@ export interface IEventOptions<T> {
      *
      * Newer subscriptions outside of the maximum quota will start
      * receiving events when the older subscriptions get cancelled.
+     * Subscriptions with higher `priority` take the quota first.
      */
     maxSubs?: number;
 
+    /**
+     * Event label, to register the event in the global [[EventRegistry]] for diagnostics.
+     *
+     * The event is held there weakly, when `WeakRef` is supported.
+     */
+    label?: string;
+
     /**
      * Notification of a new subscriber being registered.
      *
@@ -134,6 +257,229 @@ export interface IEventOptions<T> {
      * `ctx`: [[ISubContext]] - Subscription Context.
      */
     onCancel?: (ctx: ISubContext<T>) => void;
+
+    /**
+     * Number of subscriptions above which a possible subscription leak is reported,
+     * similar to `maxListeners` of `EventEmitter`. Default is 0, meaning `no leak detection`.
+     *
+     * A leak is reported when the total number of subscriptions, or the number of subscriptions
+     * with the same `name`, crosses the threshold. The report goes into `onLeak`, when it is set,
+     * or else into a process warning (under Node.js).
+     */
+    leakThreshold?: number;
+
+    /**
+     * Notification of a possible subscription leak, as detected with option `leakThreshold`.
+     *
+     * ```js
+     * (info: ILeakInfo<T>) => void;
+     * ```
+     *
+     * @param info
+     * `info`: [[ILeakInfo]] - Leak details.
+     */
+    onLeak?: (info: ILeakInfo<T>) => void;
+
+    /**
+     * Captures stack trace at the time of every [[subscribe]] call, to be included
+     * in leak reports, in order to locate the offending subscriptions.
+     *
+     * It is off by default, as it slows down subscribing.
+     */
+    captureStack?: boolean;
+
+    /**
+     * Debug mode, to record details of every subscription, as reported by method [[getSubscriptions]]:
+     * the stack trace at the time of the [[subscribe]] call, the creation time, and the number
+     * of events received.
+     *
+     * It is off by default, as it slows down subscribing.
+     */
+    debug?: boolean;
+
+    /**
+     * Instrumentation hooks, to feed event throughput into a metrics system.
+     *
+     * When not set, no timings are taken.
+     */
+    metrics?: IEventMetrics<T>;
+
+    /**
+     * Source of time and timers, to replace the system one, like with a virtual clock for tests.
+     *
+     * It is used for timeouts of [[toPromise]] and [[emitAsync]], time of subscriptions in debug mode,
+     * and it also replaces the process / timer ticks of emit schedules `async` and `next`
+     * with zero-delay timers.
+     */
+    clock?: IClock;
+}
+
+/**
+ * @interface IEventMetrics
+ * @description
+ * Instrumentation hooks, as set with option `metrics` of the event constructor,
+ * which method [[emit]] calls with timings.
+ *
+ * All durations are in ms, as measured with `performance.now()`, when available,
+ * or else with `Date.now()`.
+ *
+ * ```ts
+ * const e = new SubEvent<string>({
+ *     metrics: {
+ *         onEmitEnd: (event, count, duration) => emitHistogram.observe(duration),
+ *         onSubscriber: (event, duration, name) => subHistogram.observe({name}, duration),
+ *         onError: (event, err, name) => errorCounter.inc({name})
+ *     }
+ * });
+ * ```
+ */
+export interface IEventMetrics<T = unknown> {
+    /**
+     * Emit has started.
+     */
+    onEmitStart?: (event: SubEvent<T>) => void;
+
+    /**
+     * Emit has finished, as the last recipient has received the data,
+     * or there were no recipients.
+     *
+     * @param event
+     * Event that emitted the data.
+     *
+     * @param count
+     * Number of subscribers that have received the data.
+     *
+     * @param duration
+     * Time since the emit started, including the emit schedule delays.
+     */
+    onEmitEnd?: (event: SubEvent<T>, count: number, duration: number) => void;
+
+    /**
+     * Subscriber has returned, or thrown an error.
+     *
+     * @param event
+     * Event that emitted the data.
+     *
+     * @param duration
+     * Synchronous duration of the subscription callback function.
+     *
+     * @param name
+     * Subscription name, if one was specified with method [[subscribe]].
+     */
+    onSubscriber?: (event: SubEvent<T>, duration: number, name?: string) => void;
+
+    /**
+     * Promise returned by a subscriber has settled.
+     *
+     * @param event
+     * Event that emitted the data.
+     *
+     * @param duration
+     * Time from calling the subscription function till the promise settled.
+     *
+     * @param status
+     * Settlement status of the promise.
+     *
+     * @param name
+     * Subscription name, if one was specified with method [[subscribe]].
+     */
+    onSettled?: (event: SubEvent<T>, duration: number, status: 'fulfilled' | 'rejected', name?: string) => void;
+
+    /**
+     * Subscriber error, as passed into `onError` of the emit options.
+     *
+     * @param event
+     * Event that emitted the data.
+     *
+     * @param err
+     * The error that was thrown or rejected.
+     *
+     * @param name
+     * Subscription name, if one was specified with method [[subscribe]].
+     */
+    onError?: (event: SubEvent<T>, err: any, name?: string) => void;
+}
+
+/**
+ * @interface ISubDescriptor
+ * @description
+ * Read-only details of a live subscription, as returned by method [[getSubscriptions]].
+ */
+export interface ISubDescriptor {
+    /**
+     * Subscription name, if one was specified with method [[subscribe]].
+     */
+    readonly name?: string;
+
+    /**
+     * Delivery priority of the subscription.
+     */
+    readonly priority: number;
+
+    /**
+     * Indicates whether the subscription is within the [[maxSubs]] quota, i.e. it receives events.
+     */
+    readonly active: boolean;
+
+    /**
+     * Stack trace at the time of the [[subscribe]] call, in debug mode,
+     * or when option `captureStack` is set.
+     */
+    readonly stack?: string;
+
+    /**
+     * Time when the subscription was created, as returned by `Date.now()`, in debug mode.
+     */
+    readonly created?: number;
+
+    /**
+     * Subscription age in ms, in debug mode.
+     */
+    readonly age?: number;
+
+    /**
+     * Number of events received by the subscription, in debug mode.
+     */
+    readonly received?: number;
+}
+
+/**
+ * @interface ILeakInfo
+ * @description
+ * Details of a possible subscription leak, as reported via option `onLeak`.
+ */
+export interface ILeakInfo<T = unknown> {
+    /**
+     * Event object with the leak.
+     */
+    readonly event: SubEvent<T>;
+
+    /**
+     * Name of the subscriptions that crossed the threshold, or `undefined`,
+     * when it was the total number of subscriptions.
+     */
+    readonly name?: string;
+
+    /**
+     * Number of the offending subscriptions.
+     */
+    readonly count: number;
+
+    /**
+     * The threshold that was crossed, from option `leakThreshold`.
+     */
+    readonly threshold: number;
+
+    /**
+     * Map of the offending subscription names to their usage counters.
+     */
+    readonly named: { [name: string]: number };
+
+    /**
+     * Stack traces of the offending subscriptions, captured at the time of
+     * the [[subscribe]] call, when option `captureStack` is set.
+     */
+    readonly stacks?: string[];
 }
 
 /**
@@ -166,6 +512,66 @@ export interface ISubOptions {
      */
     thisArg?: any;
 
+    /**
+     * Delivery priority, relative to other subscriptions. Default is 0.
+     *
+     * Subscribers with higher priority receive events first, and are first to be
+     * included within the [[maxSubs]] quota. Subscribers with equal priority
+     * receive events in the order in which they subscribed.
+     */
+    priority?: number;
+
+    /**
+     * Makes delivery to the subscriber serial, via its own queue: when the subscription
+     * function returns a promise, the next value is delivered only after the promise has settled,
+     * while values received in the meantime are queued, according to the queue options.
+     *
+     * ```ts
+     * event.subscribe(async data => {
+     *     await saveData(data); // slow processing
+     * }, {queue: {maxSize: 100, overflow: QueueOverflow.dropOldest}});
+     * ```
+     *
+     * When the queue overflows with option `overflow` = `throw`, the value is dropped, and
+     * `Event queue overflow` error is passed into `onError` of the emit options, or else thrown.
+     *
+     * Queued values are discarded when the subscription is cancelled.
+     */
+    queue?: IQueueOptions;
+
+    /**
+     * Owner object of the subscription, which is held weakly, so the subscription
+     * is cancelled automatically, once the owner has been garbage-collected.
+     *
+     * Unless option `thisArg` is set, the owner is also the calling / `this` context
+     * for the subscription callback function, which is no longer called once the owner
+     * has been collected:
+     * ```ts
+     * event.subscribe(this.onData, {owner: this}); // NOT this.onData.bind(this)
+     * ```
+     * For this to work, the subscription function must not reference the owner directly,
+     * and neither should option `thisArg`, or any other subscription option.
+     *
+     * It requires support for `WeakRef` and `FinalizationRegistry`, or else it throws an error.
+     */
+    owner?: object;
+
+    /**
+     * Abort signal, to cancel the subscription when aborted.
+     *
+     * ```ts
+     * const ac = new AbortController();
+     *
+     * event.subscribe(data => {}, {signal: ac.signal});
+     *
+     * ac.abort(); // cancels the subscription
+     * ```
+     *
+     * When the signal is already aborted, the subscription is not created,
+     * and the returned object is not [[live]].
+     */
+    signal?: AbortSignal;
+
     /**
      * Subscription-cancel callback, to be notified on subscription explicit
      * [[cancel]] call, or when cancelled implicitly via [[cancelAll]].
@@ -174,6 +580,29 @@ export interface ISubOptions {
      * errors, should the handler throw any.
      */
     onCancel?: () => void;
+
+    /**
+     * Notification of the event completion, via method [[complete]].
+     *
+     * It is called before the subscription is cancelled, or immediately,
+     * when subscribing to an event that has already completed.
+     */
+    onComplete?: () => void;
+
+    /**
+     * Notification of the event failure, via method [[error]].
+     *
+     * It is called before the subscription is cancelled, or immediately,
+     * when subscribing to an event that has already failed.
+     *
+     * ```js
+     * (err: any) => void;
+     * ```
+     *
+     * @param err
+     * `err`: The error passed into method [[error]].
+     */
+    onError?: (err: any) => void;
 }
 
 /**
@@ -191,6 +620,21 @@ export interface ISubStat {
      * Total number of unnamed subscriptions.
      */
     unnamed: number;
+
+    /**
+     * Map of subscription priorities to the number of subscriptions that use them.
+     *
+     * It is only present when at least one subscription has a non-zero `priority`.
+     */
+    priorities?: { [priority: number]: number };
+
+    /**
+     * Queue depths of subscriptions with option `queue`, in the order of delivery,
+     * as the number of values waiting for delivery.
+     *
+     * It is only present when at least one subscription has option `queue` set.
+     */
+    queues?: Array<{ name?: string, depth: number }>;
 }
 
 /**
@@ -207,35 +651,162 @@ export interface ISubscriber<T> extends ISubContext<T> {
     /**
      * Event notification callback function.
      */
-    cb?: SubFunction<T>;
+    cb?: (...args: any[]) => any;
 
     /**
-     * Cancels the subscription.
+     * Delivery priority.
      */
-    cancel: (() => void);
-}
-
-/**
- * #### class SubEvent\<T = unknown\>
- *
- * @class SubEvent
- * @description
- * Core class, implementing event subscription + emitting the event.
- *
- * @see [[subscribe]], [[emit]]
- */
-export class SubEvent<T = unknown> {
+    priority: number;
 
     /**
-     * @hidden
+     * Stack trace captured at the time of the [[subscribe]] call.
      */
-    readonly options: IEventOptions<T>;
+    stack?: string;
 
     /**
-     * Internal list of subscribers.
-     * @hidden
+     * Subscription details, recorded in debug mode.
      */
-    protected _subs: ISubscriber<T>[] = [];
+    debug?: { created: number, received: number };
+
+    /**
+     * Delivery queue, when the subscription has option `queue` set.
+     */
+    queue?: ISubQueue;
+
+    /**
+     * Completion notification, from the subscription options.
+     */
+    onComplete?: () => void;
+
+    /**
+     * Failure notification, from the subscription options.
+     */
+    onError?: (err: any) => void;
+
+    /**
+     * Cancels the subscription.
+     */
+    cancel: (() => void);
+}
+
+/**
+ * Value for delivery to a subscriber with option `queue`.
+ * @hidden
+ */
+export interface IQueueItem {
+
+    /**
+     * Arguments for the subscription callback function.
+     */
+    args: any[];
+
+    /**
+     * Error handler of the emit, if any.
+     */
+    onError?: (err: any, name?: string) => void;
+
+    /**
+     * Result handler, for [[emitAsync]], which takes over the error handling,
+     * and receives `null` when the value has not been delivered.
+     */
+    onResult?: (result: ISubResult | null) => void;
+
+    /**
+     * Runs the delivery within the context captured when the value was queued,
+     * when a context manager is set.
+     */
+    inContext?: (cb: () => void) => void;
+}
+
+/**
+ * Delivery queue of one subscriber, as set with option `queue` in [[ISubOptions]].
+ * @hidden
+ */
+export interface ISubQueue {
+
+    /**
+     * Queue options, from the subscription options.
+     */
+    options: IQueueOptions;
+
+    /**
+     * Values waiting for delivery.
+     */
+    items: IQueueItem[];
+
+    /**
+     * Indicates whether the subscriber is still processing the last value.
+     */
+    busy: boolean;
+}
+
+/**
+ * Terminal state of an event, after method [[complete]] or [[error]] has been called.
+ * @hidden
+ */
+export interface ITerminalState {
+
+    /**
+     * Indicates whether the event failed, via method [[error]].
+     */
+    failed: boolean;
+
+    /**
+     * The error passed into method [[error]].
+     */
+    error?: any;
+}
+
+/**
+ * Internal state of one emit, for extending the broadcast logic.
+ * @hidden
+ */
+export interface IEmitState {
+
+    /**
+     * Once set, the data is no longer delivered to the remaining recipients.
+     */
+    stopped?: boolean;
+
+    /**
+     * Notification of when the last recipient has been processed, or that there were no recipients.
+     */
+    onDone?: (count: number) => void;
+}
+
+/**
+ * #### class SubEvent\<T = unknown\>
+ *
+ * @class SubEvent
+ * @description
+ * Core class, implementing event subscription + emitting the event.
+ *
+ * @see [[subscribe]], [[emit]]
+ */
+export class SubEvent<T = unknown> {
+
+    /**
+     * @hidden
+     */
+    readonly options: IEventOptions<T>;
+
+    /**
+     * Internal list of subscribers.
+     * @hidden
+     */
+    protected _subs: ISubscriber<T>[] = [];
+
+    /**
+     * Terminal state, once the event has completed or failed.
+     * @hidden
+     */
+    protected _terminal: ITerminalState | null = null;
+
+    /**
+     * Source of time and timers, from option `clock`.
+     * @hidden
+     */
+    protected _clock: IClock;
 
     /**
      * @constructor
@@ -249,6 +820,10 @@ export class SubEvent<T = unknown> {
             throw new TypeError(Stat.errInvalidOptions);
         }
         this.options = options ?? {};
+        this._clock = this.options.clock ?? systemClock;
+        if (this.options.label) {
+            EventRegistry.register(this, this.options.label);
+        }
     }
 
     /**
@@ -269,6 +844,45 @@ export class SubEvent<T = unknown> {
         return new EventConsumer(this);
     }
 
+    /**
+     * Creates a new derived event, by passing this event through a chain of operators.
+     *
+     * The derived event subscribes to this event only while it has subscribers of its own,
+     * and cancels the upstream subscription when its last subscriber leaves.
+     *
+     * ```ts
+     * import {SubEvent, filter, map} from 'sub-events';
+     *
+     * const e = new SubEvent<number>();
+     *
+     * const evens = e.pipe(filter(a => a % 2 === 0), map(a => `even: ${a}`));
+     *
+     * evens.subscribe((data: string) => {
+     *     // data = 'even: 2'
+     * });
+     *
+     * e.emit(1).emit(2);
+     * ```
+     *
+     * @param ops
+     * Operators to be applied, in the order of the data flow.
+     *
+     * @returns
+     * The resulting derived event.
+     */
+    public pipe<A>(op1: Operator<T, A>): SubEventCount<A>;
+    public pipe<A, B>(op1: Operator<T, A>, op2: Operator<A, B>): SubEventCount<B>;
+    public pipe<A, B, C>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>): SubEventCount<C>;
+    public pipe<A, B, C, D>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>, op4: Operator<C, D>): SubEventCount<D>;
+    public pipe<A, B, C, D, E>(op1: Operator<T, A>, op2: Operator<A, B>, op3: Operator<B, C>, op4: Operator<C, D>, op5: Operator<D, E>): SubEventCount<E>;
+    public pipe<R>(...ops: Operator<any, any>[]): SubEventCount<R>;
+    public pipe<R>(...ops: Operator<any, any>[]): SubEventCount<R> {
+        if (!ops.length) {
+            throw new TypeError(Stat.errNoOperators);
+        }
+        return ops.reduce((e: ISubscribable<any>, op) => op(e), this) as SubEventCount<R>;
+    }
+
     /**
      * Subscribes to the event.
      *
@@ -277,6 +891,10 @@ export class SubEvent<T = unknown> {
      *
      * Method [[getStat]] can help with diagnosing leaked subscriptions.
      *
+     * When the event has already completed or failed, the subscription is not created,
+     * and the returned object is not [[live]], while option `onComplete` or `onError`
+     * is called immediately.
+     *
      * @param cb
      * Event notification callback function.
      *
@@ -292,21 +910,69 @@ export class SubEvent<T = unknown> {
         if (typeof (options ?? {}) !== 'object') {
             throw new TypeError(Stat.errInvalidOptions);
         }
-        cb = options && 'thisArg' in options ? cb.bind(options.thisArg) : cb;
+        const name = options && options.name;
+        const priority = (options && options.priority) ?? 0;
+        const {onComplete, onError, signal} = options ?? {};
+        if (this._terminal || (signal && signal.aborted)) {
+            const nop = () => null;
+            const s = new Subscription({cancel: nop, sub: {name, cancel: nop}});
+            s.cancel(); // never live
+            if (this._terminal) {
+                this._signal({onComplete, onError});
+            }
+            return s;
+        }
+        let owner: WeakOwner<object> | undefined;
+        if (options && options.owner) {
+            const f: (...args: any[]) => any = cb;
+            owner = new WeakOwner(options.owner, () => subscription.cancel());
+            cb = 'thisArg' in options ? f.bind(options.thisArg) : function (...args: any[]) {
+                const o = (owner as WeakOwner<object>).get();
+                return o && f.apply(o, args);
+            };
+        } else {
+            cb = options && 'thisArg' in options ? cb.bind(options.thisArg) : cb;
+        }
+        const onCancel = options && options.onCancel;
+        const onAbort = () => subscription.cancel();
         const cancel = () => {
-            if (options && typeof options.onCancel === 'function') {
-                options.onCancel();
+            if (owner) {
+                owner.release();
+            }
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+            if (typeof onCancel === 'function') {
+                onCancel();
             }
         };
-        const name = options && options.name;
-        const sub: ISubscriber<T> = {event: this, cb, name, cancel};
+        const sub: ISubscriber<T> = {event: this, cb, name, priority, onComplete, onError, cancel};
+        if (options && options.queue) {
+            sub.queue = {options: options.queue, items: [], busy: false};
+        }
         if (typeof this.options.onSubscribe === 'function') {
             const ctx: ISubContext<T> = {event: sub.event, name: sub.name, data: sub.data};
             this.options.onSubscribe(ctx);
             sub.data = ctx.data;
         }
-        this._subs.push(sub);
-        return new Subscription({cancel: this._createCancel(sub), sub});
+        if (this.options.captureStack || this.options.debug) {
+            sub.stack = new Error().stack;
+        }
+        if (this.options.debug) {
+            sub.debug = {created: this._clock.now(), received: 0};
+        }
+        this._insertSub(sub);
+        if (this.options.leakThreshold) {
+            this._checkLeak(sub, this.options.leakThreshold);
+        }
+        let c: () => void;
+        // the subscription must exist before _createCancel, which can end it right away:
+        const subscription = new Subscription({cancel: () => c(), sub});
+        c = this._createCancel(sub);
+        if (signal && subscription.live) {
+            signal.addEventListener('abort', onAbort);
+        }
+        return subscription;
     }
 
     /**
@@ -328,9 +994,9 @@ export class SubEvent<T = unknown> {
      * @see [[toPromise]]
      */
     public once(cb: SubFunction<T>, options?: ISubOptions): Subscription {
-        const sub = this.subscribe((data: T) => {
+        const sub = this.subscribe(function (this: any, data: T) {
             sub.cancel();
-            return cb.call(options && options.thisArg, data);
+            return cb.call(this, data);
         }, options);
         return sub;
     }
@@ -352,34 +1018,96 @@ export class SubEvent<T = unknown> {
         if (typeof (options ?? {}) !== 'object') {
             throw new TypeError(Stat.errInvalidOptions);
         }
-        const schedule: EmitSchedule = (options && options.schedule) ?? EmitSchedule.sync;
-        const onFinished = options && typeof options.onFinished === 'function' && options.onFinished;
-        const onError = options && typeof options.onError === 'function' && options.onError;
-        const start = schedule === EmitSchedule.sync ? Stat.callNow : Stat.callNext;
-        const middle = schedule === EmitSchedule.async ? Stat.callNext : Stat.callNow;
-        start(() => {
-            const r = this._getRecipients();
-            r.forEach((sub, index) => middle(() => {
-                if (onError) {
-                    try {
-                        const res = sub.cb && sub.cb(data);
-                        if (res && typeof res.catch === 'function') {
-                            res.catch((err: any) => onError(err, sub.name));
-                        }
-                    } catch (e) {
-                        onError(e, sub.name);
-                    }
-                } else {
-                    sub.cb && sub.cb(data);
-                }
-                if (onFinished && index === r.length - 1) {
-                    onFinished(r.length); // finished sending
-                }
-            }));
-        });
+        this._broadcast([data], options ?? {});
         return this;
     }
 
+    /**
+     * Completes the event, to signal that it will produce no more data.
+     *
+     * Every subscriber is notified via option `onComplete`, and then all subscriptions
+     * are cancelled. The event stays in the terminal state, with [[closed]] = `true`,
+     * so every new subscriber is notified immediately, and [[emit]] does nothing.
+     *
+     * @returns
+     * - `true` - the event has been completed
+     * - `false` - nothing happened, as the event was already closed
+     *
+     * @see [[error]]
+     */
+    public complete(): boolean {
+        return this._close({failed: false});
+    }
+
+    /**
+     * Fails the event, to signal that its source has failed, and will produce no more data.
+     *
+     * Every subscriber is notified via option `onError`, and then all subscriptions
+     * are cancelled. The event stays in the terminal state, with [[closed]] = `true`,
+     * so every new subscriber is notified immediately, and [[emit]] does nothing.
+     *
+     * @param err
+     * The error to be passed to subscribers.
+     *
+     * @returns
+     * - `true` - the event has been failed
+     * - `false` - nothing happened, as the event was already closed
+     *
+     * @see [[complete]]
+     */
+    public error(err: any): boolean {
+        return this._close({failed: true, error: err});
+    }
+
+    /**
+     * Indicates whether the event is in the terminal state, after [[complete]] or [[error]].
+     */
+    public get closed(): boolean {
+        return !!this._terminal;
+    }
+
+    /**
+     * Broadcasts data to all subscribers, and waits for all the values they return to settle.
+     *
+     * Subscribers can return promises, so the caller can wait for all of them to finish
+     * processing the data, and collect the results:
+     *
+     * ```ts
+     * const results = await myEvent.emitAsync(data, {timeout: 1000});
+     *
+     * results.forEach(r => {
+     *     // r = {name, status: 'fulfilled', value} or {name, status: 'rejected', reason}
+     * });
+     * ```
+     *
+     * Recipients are determined at the time of the call, according to the [[maxSubs]] option,
+     * and subscriptions cancelled while the data is being delivered are excluded from the results.
+     *
+     * Subscribers with option `queue` receive the data via their queue, so their results wait for
+     * all the values queued before, while values dropped from the queue are excluded from the results,
+     * and queue overflow with option `overflow` = `throw` is reported as a rejected result.
+     *
+     * The method can reject only when the timeout has been reached (if set via option `timeout`),
+     * with `Event timed out` error, or when the abort signal (if set via option `signal`) is aborted,
+     * with `Event aborted` error, named `AbortError`. When the signal is already aborted,
+     * the data is not sent.
+     *
+     * With option `metrics`, every subscriber is reported the same way as for [[emit]], while
+     * `onEmitEnd` is reported once all the recipients have settled, with the number of results.
+     *
+     * @param data
+     * Data to be sent, according to the template type.
+     *
+     * @param options
+     * Event-emitting options.
+     *
+     * @returns
+     * Results from all the recipients, in the order of delivery.
+     */
+    public emitAsync(data: T, options?: IEmitAsyncOptions): Promise<ISubResult[]> {
+        return this._emitAsync([data], options);
+    }
+
     /**
      * Current number of live subscriptions.
      */
@@ -393,6 +1121,7 @@ export class SubEvent<T = unknown> {
      *
      * Newer subscriptions outside of the maximum quota will start
      * receiving events when the older subscriptions get cancelled.
+     * Subscriptions with higher `priority` take the quota first.
      *
      * It can only be set with the [[constructor]].
      */
@@ -417,6 +1146,9 @@ export class SubEvent<T = unknown> {
      */
     public getStat(options?: { minUse?: number }): ISubStat {
         const stat: ISubStat = {named: {}, unnamed: 0};
+        const priorities: { [priority: number]: number } = {};
+        const queues: Array<{ name?: string, depth: number }> = [];
+        let prioritized = false;
         this._subs.forEach(s => {
             if (s.name) {
                 if (s.name in stat.named) {
@@ -427,7 +1159,18 @@ export class SubEvent<T = unknown> {
             } else {
                 stat.unnamed++;
             }
+            priorities[s.priority] = (priorities[s.priority] ?? 0) + 1;
+            prioritized = prioritized || s.priority !== 0;
+            if (s.queue) {
+                queues.push({name: s.name, depth: s.queue.items.length});
+            }
         });
+        if (prioritized) {
+            stat.priorities = priorities;
+        }
+        if (queues.length) {
+            stat.queues = queues;
+        }
         const minUse = (options && options.minUse) ?? 0;
         if (minUse > 1) {
             for (const a in stat.named) {
@@ -439,6 +1182,36 @@ export class SubEvent<T = unknown> {
         return stat;
     }
 
+    /**
+     * Inspects all live subscriptions, to help with debugging.
+     *
+     * ```ts
+     * const e = new SubEvent<string>({debug: true});
+     *
+     * e.subscribe(data => {}, {name: 'logger'});
+     *
+     * e.getSubscriptions().forEach(s => {
+     *     // s = {name: 'logger', priority: 0, active: true, stack, created, age, received}
+     * });
+     * ```
+     *
+     * Details `stack`, `created`, `age` and `received` are available only in debug mode,
+     * as enabled with option `debug` of the event constructor.
+     *
+     * @returns
+     * Frozen descriptors of the live subscriptions, in the order of delivery.
+     *
+     * @see [[getStat]]
+     */
+    public getSubscriptions(): ISubDescriptor[] {
+        const now = this._clock.now();
+        const end = this.maxSubs > 0 ? this.maxSubs : this._subs.length;
+        return this._subs.map((s, index) => {
+            const d: ISubDescriptor = {name: s.name, priority: s.priority, active: index < end, stack: s.stack};
+            return Object.freeze(s.debug ? {...d, created: s.debug.created, age: now - s.debug.created, received: s.debug.received} : d);
+        });
+    }
+
     /**
      * Cancels all existing subscriptions for the event.
      *
@@ -489,9 +1262,13 @@ export class SubEvent<T = unknown> {
      * }
      * ```
      *
-     * The method can reject in two cases:
+     * The method can reject in the following cases:
      *  - when the timeout has been reached (if set via option `timeout`), it rejects with `Event timed out` error;
-     *  - when [[cancelAll]] is called on the event object, it rejects with `Event cancelled` error.
+     *  - when [[cancelAll]] is called on the event object, it rejects with `Event cancelled` error;
+     *  - when [[complete]] is called on the event object, it rejects with `Event completed` error;
+     *  - when [[error]] is called on the event object, it rejects with the error passed into it.
+     *  - when the abort signal (if set via option `signal`) is aborted, it rejects with `Event aborted` error,
+     *    named `AbortError`.
      *
      * Note that if you use this method consecutively, you can miss events in between,
      * because the subscription is auto-cancelled after receiving the first event.
@@ -505,46 +1282,130 @@ export class SubEvent<T = unknown> {
      * - `timeout` - sets timeout in ms (when `timeout` >= 0), to auto-reject with
      *    `Event timed out` error.
      *
+     * - `signal` - abort signal, to cancel the subscription, and reject with `Event aborted` error.
+     *
      * @see [[once]]
      */
-    public toPromise(options?: { name?: string, timeout?: number }): Promise<T> {
+    public toPromise(options?: { name?: string, timeout?: number, signal?: AbortSignal }): Promise<T> {
         if (typeof (options ?? {}) !== 'object') {
             throw new TypeError(Stat.errInvalidOptions);
         }
-        const {name, timeout = -1} = options || {};
+        const {name, timeout = -1, signal} = options || {};
+        if (signal && signal.aborted) {
+            return Promise.reject(Stat.abortError(name));
+        }
         let timer: any, selfCancel = false;
         return new Promise((resolve, reject) => {
             const onCancel = () => {
+                if (timer) {
+                    this._clock.clearTimeout(timer);
+                }
+                if (signal) {
+                    signal.removeEventListener('abort', onAbort);
+                }
                 if (!selfCancel) {
-                    if (timer) {
-                        clearTimeout(timer);
-                    }
                     reject(new Error(name ? `Event "${name}" cancelled.` : `Event cancelled.`));
                 }
             };
-            const sub = this.subscribe(data => {
-                if (timer) {
-                    clearTimeout(timer);
-                }
+            const onComplete = () => {
+                reject(new Error(name ? `Event "${name}" completed.` : `Event completed.`));
+            };
+            const end = (settle: () => void) => {
                 selfCancel = true;
                 sub.cancel();
-                resolve(data);
-            }, {name, onCancel});
-            if (Number.isInteger(timeout) && timeout >= 0) {
-                timer = setTimeout(() => {
-                    selfCancel = true;
-                    sub.cancel();
-                    reject(new Error(name ? `Event "${name}" timed out.` : `Event timed out.`));
-                }, timeout);
+                settle();
+            };
+            const onAbort = () => end(() => reject(Stat.abortError(name)));
+            const sub = this.subscribe(data => end(() => resolve(data)), {name, onCancel, onComplete, onError: reject});
+            if (sub.live) {
+                if (Number.isInteger(timeout) && timeout >= 0) {
+                    timer = this._clock.setTimeout(() => {
+                        end(() => reject(new Error(name ? `Event "${name}" timed out.` : `Event timed out.`)));
+                    }, timeout);
+                }
+                if (signal) {
+                    signal.addEventListener('abort', onAbort);
+                }
             }
         });
     }
 
+    /**
+     * Creates an asynchronous iterator over the event values, with one live subscription
+     * that queues all values received in between iteration steps.
+     *
+     * ```ts
+     * for await (const data of myEvent.toAsyncIterable({maxSize: 100})) {
+     *     // process the data;
+     * }
+     * ```
+     *
+     * Breaking out of the loop cancels the subscription, while [[cancelAll]] and [[complete]]
+     * end the iteration, once all the queued values have been iterated through.
+     * After [[error]], the iteration fails with the error, once all the queued values
+     * have been iterated through.
+     *
+     * When the queue overflows with option `overflow` = `throw`, the subscription is
+     * cancelled, and the iteration fails with `Event queue overflow` error.
+     *
+     * @param options
+     * Iteration Options.
+     *
+     * @see [[toPromise]]
+     */
+    public toAsyncIterable(options?: IIterableOptions): AsyncIterableIterator<T> {
+        if (typeof (options ?? {}) !== 'object') {
+            throw new TypeError(Stat.errInvalidOptions);
+        }
+        return new EventIterator(this, options ?? {});
+    }
+
+    /**
+     * Default asynchronous iterator, to support `for await (const data of myEvent)`.
+     *
+     * It is the same as calling [[toAsyncIterable]] without options.
+     */
+    public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this.toAsyncIterable();
+    }
+
+    /**
+     * Creates a standard Observable for the event, compatible with RxJS and the TC39 proposal.
+     *
+     * ```ts
+     * import {from} from 'rxjs';
+     *
+     * const sub = from(myEvent.toObservable()).subscribe(data => {
+     *     // data received from myEvent;
+     * });
+     *
+     * sub.unsubscribe(); // cancels the underlying subscription
+     * ```
+     *
+     * Every Observable subscription creates a new subscription to the event, which is cancelled
+     * when the Observable subscription is unsubscribed. Cancelling it in any other way,
+     * like via [[cancelAll]], completes the Observable subscription, while [[complete]]
+     * and [[error]] are passed on to the observer.
+     */
+    public toObservable(): IObservable<T> {
+        return toObservable(this);
+    }
+
+    /**
+     * Standard Observable interop, to let libraries like RxJS consume the event directly.
+     *
+     * It is the same as calling [[toObservable]].
+     */
+    public [observable](): IObservable<T> {
+        return this.toObservable();
+    }
+
     /**
      * Gets all recipients that must receive data.
      *
      * It returns a copy of subscribers array for safe iteration, while applying the
-     * maximum limit when it is set with the [[maxSubs]] option.
+     * maximum limit when it is set with the [[maxSubs]] option. Since the subscribers are
+     * sorted by priority, the quota goes to the highest-priority subscribers first.
      *
      * @hidden
      */
@@ -553,6 +1414,453 @@ export class SubEvent<T = unknown> {
         return this._subs.slice(0, end);
     }
 
+    /**
+     * Implements [[emitAsync]], for the arguments to be passed into subscribers.
+     * @hidden
+     *
+     * @param args
+     * Arguments for the subscribers.
+     *
+     * @param options
+     * Event-emitting options.
+     *
+     * @param state
+     * Optional emit state, for stopping the delivery, and to be notified when all recipients have settled.
+     */
+    protected _emitAsync(args: any[], options?: IEmitAsyncOptions, state?: IEmitState): Promise<ISubResult[]> {
+        if (typeof (options ?? {}) !== 'object') {
+            throw new TypeError(Stat.errInvalidOptions);
+        }
+        const {sequential = false, timeout = -1, signal} = options || {};
+        if (signal && signal.aborted) {
+            return Promise.reject(Stat.abortError());
+        }
+        const m = this.options.metrics;
+        const t = m ? Stat.now() : 0;
+        if (m && m.onEmitStart) {
+            m.onEmitStart(this);
+        }
+        const call = (sub: ISubscriber<T>): Promise<ISubResult | null> => {
+            if (!sub.cb || (state && state.stopped)) {
+                return Promise.resolve(null); // cancelled or stopped during delivery
+            }
+            const name = sub.name, q = sub.queue;
+            if (sub.debug) {
+                sub.debug.received++;
+            }
+            if (q) {
+                return new Promise(onResult => this._enqueue(sub, q, {args, onResult})); // serial delivery
+            }
+            return new Promise(resolve => resolve(this._invoke(sub, args, true)))
+                .then((value): ISubResult => ({name, status: 'fulfilled', value}),
+                    (reason): ISubResult => ({name, status: 'rejected', reason}));
+        };
+        const r = this._getRecipients();
+        let done: Promise<ISubResult[]> = sequential ?
+            r.reduce((p, sub) => p.then(results => call(sub).then(res => res ? [...results, res] : results)), Promise.resolve<ISubResult[]>([])) :
+            Promise.all(r.map(call)).then(results => results.filter(res => res) as ISubResult[]);
+        if (m && m.onEmitEnd) {
+            const onEmitEnd = m.onEmitEnd;
+            done = done.then(results => {
+                onEmitEnd(this, results.length, Stat.now() - t);
+                return results;
+            });
+        }
+        if (state && state.onDone) {
+            const onDone = state.onDone;
+            done = done.then(results => {
+                onDone(results.length);
+                return results;
+            });
+        }
+        const useTimer = Number.isInteger(timeout) && timeout >= 0;
+        if (useTimer || signal) {
+            return new Promise((resolve, reject) => {
+                const stop = () => {
+                    if (timer) {
+                        this._clock.clearTimeout(timer);
+                    }
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+                };
+                const onAbort = () => {
+                    stop();
+                    reject(Stat.abortError());
+                };
+                const timer = useTimer && this._clock.setTimeout(() => {
+                    stop();
+                    reject(new Error(`Event timed out.`));
+                }, timeout);
+                if (signal) {
+                    signal.addEventListener('abort', onAbort);
+                }
+                done.then(results => {
+                    stop();
+                    resolve(results);
+                });
+            });
+        }
+        return done;
+    }
+
+    /**
+     * Broadcasts callback arguments to all recipients, according to the emit schedule.
+     * @hidden
+     *
+     * @param args
+     * Arguments for the subscription callback functions.
+     *
+     * @param options
+     * Event-emitting options.
+     *
+     * @param state
+     * Optional emit state, for stopping the delivery, and to be notified when it is done.
+     */
+    protected _broadcast(args: any[], options: IEmitOptions, state?: IEmitState) {
+        const schedule = options.schedule ?? EmitSchedule.sync;
+        const onFinished = typeof options.onFinished === 'function' && options.onFinished;
+        let onError = typeof options.onError === 'function' ? options.onError : undefined;
+        const clock = this.options.clock;
+        const next: CallSchedule = clock ? cb => clock.setTimeout(cb, 0) : Stat.callNext;
+        let start: CallSchedule = schedule === EmitSchedule.sync ? Stat.callNow : next;
+        let middle: CallSchedule = schedule === EmitSchedule.async ? next : Stat.callNow;
+        if (typeof schedule === 'object') {
+            start = cb => schedule.schedule(cb);
+        }
+        if (contextManager && schedule !== EmitSchedule.sync) {
+            const inContext = Stat.inContext(contextManager);
+            start = inContext(start);
+            middle = inContext(middle);
+        }
+        const m = this.options.metrics;
+        const t = m ? Stat.now() : 0;
+        if (m) {
+            if (m.onEmitStart) {
+                m.onEmitStart(this);
+            }
+            if (onError && m.onError) {
+                const handler = onError, report = m.onError;
+                onError = (err: any, name?: string) => {
+                    report(this, err, name);
+                    handler(err, name);
+                };
+            }
+        }
+        start(() => {
+            const r = this._getRecipients();
+            let count = 0;
+            r.forEach((sub, index) => middle(() => {
+                if (!state || !state.stopped) {
+                    count++;
+                    this._call(sub, args, onError);
+                }
+                if (index === r.length - 1) {
+                    if (onFinished) {
+                        onFinished(count); // finished sending
+                    }
+                    if (m && m.onEmitEnd) {
+                        m.onEmitEnd(this, count, Stat.now() - t);
+                    }
+                    if (state && state.onDone) {
+                        state.onDone(count);
+                    }
+                }
+            }));
+            if (!r.length) {
+                if (m && m.onEmitEnd) {
+                    m.onEmitEnd(this, 0, Stat.now() - t);
+                }
+                if (state && state.onDone) {
+                    state.onDone(0);
+                }
+            }
+        });
+    }
+
+    /**
+     * Invokes the subscription callback function, if the subscription is still live,
+     * and passes any error into the `onError` handler, when it is specified.
+     *
+     * For subscriptions with option `queue`, the call goes through the subscriber's queue.
+     * @hidden
+     *
+     * @param sub
+     * Subscriber to receive the data.
+     *
+     * @param args
+     * Arguments for the subscription callback function.
+     *
+     * @param onError
+     * Optional error handler, as passed into [[emit]].
+     */
+    protected _call(sub: ISubscriber<T>, args: any[], onError?: (err: any, name?: string) => void) {
+        if (sub.debug && sub.cb) {
+            sub.debug.received++;
+        }
+        if (sub.queue) {
+            this._enqueue(sub, sub.queue, {args, onError});
+            return;
+        }
+        if (onError) {
+            try {
+                const res = this._invoke(sub, args, true);
+                if (res && typeof res.catch === 'function') {
+                    res.catch((err: any) => onError(err, sub.name));
+                }
+            } catch (e) {
+                onError(e, sub.name);
+            }
+        } else {
+            this._invoke(sub, args, false);
+        }
+    }
+
+    /**
+     * Invokes the subscription callback function, if the subscription is still live,
+     * while reporting the timings, when option `metrics` is set.
+     * @hidden
+     *
+     * @param sub
+     * Subscriber to receive the data.
+     *
+     * @param args
+     * Arguments for the subscription callback function.
+     *
+     * @param handled
+     * Indicates whether the caller handles rejections, or else they must remain unhandled.
+     *
+     * @returns
+     * Value returned by the subscription callback function.
+     */
+    protected _invoke(sub: ISubscriber<T>, args: any[], handled: boolean): any {
+        const m = this.options.metrics;
+        if (!m || !sub.cb) {
+            return sub.cb && sub.cb(...args);
+        }
+        const name = sub.name, start = Stat.now();
+        let res: any;
+        try {
+            res = sub.cb(...args);
+        } finally {
+            if (m.onSubscriber) {
+                m.onSubscriber(this, Stat.now() - start, name);
+            }
+        }
+        const onSettled = m.onSettled;
+        if (onSettled && res && typeof res.then === 'function') {
+            res.then(() => {
+                onSettled(this, Stat.now() - start, 'fulfilled', name);
+            }, (err: any) => {
+                onSettled(this, Stat.now() - start, 'rejected', name);
+                if (!handled) {
+                    throw err; // remains unhandled, as without metrics
+                }
+            });
+        }
+        return res;
+    }
+
+    /**
+     * Delivers a value to a subscriber with option `queue`, when it is not busy,
+     * or else adds it to the queue, according to the queue options.
+     * @hidden
+     */
+    protected _enqueue(sub: ISubscriber<T>, q: ISubQueue, item: IQueueItem) {
+        if (!q.busy) {
+            this._deliver(sub, q, item);
+            return;
+        }
+        const {maxSize = 0, overflow = QueueOverflow.dropOldest} = q.options;
+        if (maxSize > 0 && q.items.length >= maxSize) {
+            switch (overflow) {
+                case QueueOverflow.dropNewest:
+                    Stat.drop(item);
+                    return;
+                case QueueOverflow.throw:
+                    const err = new Error(sub.name ? `Event "${sub.name}" queue overflow.` : `Event queue overflow.`);
+                    if (item.onResult) {
+                        item.onResult({name: sub.name, status: 'rejected', reason: err});
+                        return;
+                    }
+                    if (item.onError) {
+                        item.onError(err, sub.name);
+                        return;
+                    }
+                    throw err;
+                default:
+                    Stat.drop(q.items.shift() as IQueueItem);
+                    break;
+            }
+        }
+        if (contextManager) {
+            const cm = contextManager, ctx = cm.capture();
+            item.inContext = cb => cm.run(ctx, cb);
+        }
+        q.items.push(item);
+    }
+
+    /**
+     * Invokes the callback function of a subscriber with option `queue`, and delivers
+     * the next queued value once the returned value has settled.
+     * @hidden
+     */
+    protected _deliver(sub: ISubscriber<T>, q: ISubQueue, item: IQueueItem) {
+        const {args, onError, onResult} = item, name = sub.name;
+        const next = () => {
+            q.busy = false;
+            const i = q.items.shift();
+            if (i && sub.cb) {
+                const deliver = () => this._deliver(sub, q, i);
+                if (i.inContext) {
+                    i.inContext(deliver);
+                } else {
+                    deliver();
+                }
+            } else {
+                if (i) {
+                    Stat.drop(i);
+                }
+                q.items.splice(0).forEach(Stat.drop); // cancelled subscriptions discard the queue
+            }
+        };
+        const fail = (err: any) => {
+            try {
+                if (onResult) {
+                    onResult({name, status: 'rejected', reason: err});
+                    return;
+                }
+                if (onError) {
+                    onError(err, name);
+                    return;
+                }
+                throw err; // remains unhandled, as without the queue
+            } finally {
+                next(); // the result is reported first, as the next delivery can throw
+            }
+        };
+        const done = (value: any) => {
+            if (onResult) {
+                onResult({name, status: 'fulfilled', value});
+            }
+            next();
+        };
+        q.busy = true;
+        let res: any;
+        try {
+            res = this._invoke(sub, args, true);
+        } catch (e) {
+            fail(e);
+            return;
+        }
+        if (res && typeof res.then === 'function') {
+            res.then(done, fail);
+        } else {
+            done(res);
+        }
+    }
+
+    /**
+     * Reports a possible leak, when the new subscriber makes the total number of subscriptions,
+     * or the number of subscriptions with the same name, cross the threshold.
+     * @hidden
+     *
+     * @param sub
+     * Subscriber just added.
+     *
+     * @param threshold
+     * Value of option `leakThreshold`.
+     */
+    protected _checkLeak(sub: ISubscriber<T>, threshold: number) {
+        let subs = this._subs;
+        let name: string | undefined;
+        if (subs.length !== threshold + 1) {
+            name = sub.name;
+            subs = name ? subs.filter(s => s.name === name) : [];
+            if (subs.length !== threshold + 1) {
+                return;
+            }
+        }
+        const named: { [name: string]: number } = {};
+        subs.forEach(s => {
+            if (s.name) {
+                named[s.name] = (named[s.name] ?? 0) + 1;
+            }
+        });
+        const stacks = this.options.captureStack ? subs.map(s => s.stack as string) : undefined;
+        const info: ILeakInfo<T> = {event: this, name, count: subs.length, threshold, named, stacks};
+        if (typeof this.options.onLeak === 'function') {
+            this.options.onLeak(info);
+        } else {
+            Stat.warn(`Possible subscription leak detected: ${info.count} subscriptions${name ? ` named "${name}"` : ''} exceed threshold ${threshold}.`);
+        }
+    }
+
+    /**
+     * Puts the event into the terminal state, notifies all subscribers, and cancels them.
+     * @hidden
+     *
+     * @param state
+     * Terminal state of the event.
+     *
+     * @returns
+     * `false` when the event was already closed.
+     */
+    protected _close(state: ITerminalState): boolean {
+        if (this._terminal) {
+            return false;
+        }
+        this._terminal = state;
+        [...this._subs].forEach(sub => {
+            if (sub.cb) {
+                this._signal(sub); // still live
+            }
+        });
+        this.cancelAll();
+        return true;
+    }
+
+    /**
+     * Passes the terminal signal into the `onComplete` or `onError` handler.
+     * @hidden
+     *
+     * @param handlers
+     * Subscriber's handlers of the terminal signal.
+     */
+    protected _signal(handlers: { onComplete?: () => void, onError?: (err: any) => void }) {
+        const t = this._terminal as ITerminalState;
+        if (t.failed) {
+            if (typeof handlers.onError === 'function') {
+                handlers.onError(t.error);
+            }
+        } else {
+            if (typeof handlers.onComplete === 'function') {
+                handlers.onComplete();
+            }
+        }
+    }
+
+    /**
+     * Adds a new subscriber to the list, which is kept sorted by priority,
+     * from highest to lowest, with equal priorities kept in the order of insertion.
+     * @hidden
+     *
+     * @param sub
+     * Subscriber to be added.
+     */
+    protected _insertSub(sub: ISubscriber<T>) {
+        const s = this._subs;
+        if (!s.length || s[s.length - 1].priority >= sub.priority) {
+            s.push(sub); // the most common case
+        } else {
+            let i = 0;
+            while (s[i].priority >= sub.priority) {
+                i++;
+            }
+            s.splice(i, 0, sub);
+        }
+    }
+
     /**
      * Creates unsubscribe callback function for the [[Subscription]] class.
      * @hidden
@@ -587,14 +1895,22 @@ export class SubEvent<T = unknown> {
     }
 }
 
+/**
+ * Schedule for invoking a callback now or later.
+ *
+ * @hidden
+ */
+type CallSchedule = (callback: () => void) => any;
+
 /**
  * Static isolated methods and properties.
  *
  * @hidden
  */
-class Stat {
+export class Stat {
 
     static errInvalidOptions = `Invalid "options" parameter.`;
+    static errNoOperators = `At least one operator is required.`;
 
     // istanbul ignore next: we are not auto-testing in the browser
     /**
@@ -602,4 +1918,43 @@ class Stat {
      */
     static callNext = typeof process === 'undefined' ? setTimeout : process.nextTick;
     static callNow = (callback: Function) => callback();
+
+    /**
+     * Reports a queued value that has not been delivered, to its result handler, if any.
+     */
+    static drop(item: IQueueItem) {
+        if (item.onResult) {
+            item.onResult(null);
+        }
+    }
+
+    /**
+     * Creates the error for an aborted operation, named `AbortError`, as with the standard APIs.
+     */
+    static abortError(name?: string): Error {
+        const err = new Error(name ? `Event "${name}" aborted.` : `Event aborted.`);
+        err.name = 'AbortError';
+        return err;
+    }
+
+    /**
+     * Captures the current context, and returns a function that makes any call schedule
+     * run callbacks within the captured context.
+     */
+    static inContext(cm: IContextManager): (call: CallSchedule) => CallSchedule {
+        const ctx = cm.capture();
+        return call => callback => call(() => cm.run(ctx, callback));
+    }
+
+    // istanbul ignore next: we are not auto-testing in the browser
+    /**
+     * Current time in ms, for metrics.
+     */
+    static now: () => number = typeof performance === 'undefined' ? Date.now : () => performance.now();
+
+    // istanbul ignore next: we are not auto-testing in the browser
+    /**
+     * Reports a warning, as a process warning under Node.js.
+     */
+    static warn = typeof process === 'undefined' ? () => null : (msg: string) => process.emitWarning(msg, 'SubEventLeakWarning');
 }
@@ -0,0 +1,161 @@
+import {ISubOptions, SubFunction} from './event';
+import {ISubscribable} from './operators';
+import {Subscription} from './sub';
+
+/**
+ * Item of a subscription group, which is either a subscription or a nested group.
+ */
+export type SubscriptionItem = Subscription | SubscriptionGroup;
+
+/**
+ * #### class SubscriptionGroup
+ *
+ * @class SubscriptionGroup
+ * @description
+ * Collects subscriptions from any events, and nested groups, to cancel them all at once,
+ * like when a component that created them is destroyed:
+ *
+ * ```ts
+ * const group = new SubscriptionGroup();
+ *
+ * group.subscribe(onMessage, data => {}); // subscribes, and adds the subscription
+ * group.add(hub.subscribe('user', data => {}));
+ *
+ * group.cancel(); // cancels all subscriptions
+ * ```
+ *
+ * Where `Symbol.dispose` is supported, the group can be used with `using`,
+ * to cancel all subscriptions at the end of the scope.
+ */
+export class SubscriptionGroup {
+
+    /**
+     * Subscriptions and nested groups, in the order of adding.
+     * @hidden
+     */
+    protected _items: SubscriptionItem[] = [];
+
+    /**
+     * @hidden
+     */
+    protected _live = true;
+
+    /**
+     * Indicates whether the group is live, i.e. it has not been cancelled.
+     */
+    get live(): boolean {
+        return this._live;
+    }
+
+    /**
+     * Current number of live subscriptions in the group, including nested groups.
+     */
+    get count(): number {
+        return this._prune().reduce((n, item) => n + (item instanceof SubscriptionGroup ? item.count : 1), 0);
+    }
+
+    /**
+     * Adds a subscription or a nested group, which is cancelled right away,
+     * if the group has been cancelled already.
+     *
+     * @param item
+     * Subscription or group to be added.
+     *
+     * @returns
+     * The item that was added.
+     *
+     * @throws TypeError
+     * When the item is the group itself, or a group that contains it.
+     */
+    add<I extends SubscriptionItem>(item: I): I {
+        const group: SubscriptionItem = item;
+        if (group instanceof SubscriptionGroup && (group === this || group._contains(this))) {
+            throw new TypeError(`Cannot add a subscription group into itself.`);
+        }
+        if (!this._live) {
+            item.cancel();
+        } else if (this._prune().indexOf(item) === -1) {
+            this._items.push(item);
+        }
+        return item;
+    }
+
+    /**
+     * Removes a subscription or a nested group, without cancelling it.
+     *
+     * @param item
+     * Subscription or group to be removed.
+     *
+     * @returns
+     * - `true` - the item has been removed
+     * - `false` - nothing happened, as the item was not in the group
+     */
+    remove(item: SubscriptionItem): boolean {
+        const i = this._items.indexOf(item);
+        if (i >= 0) {
+            this._items.splice(i, 1);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Subscribes to the event, and adds the subscription to the group.
+     *
+     * @param event
+     * Any event source, like [[SubEvent]] or [[EventConsumer]].
+     *
+     * @param cb
+     * Event notification callback function.
+     *
+     * @param options
+     * Subscription Options.
+     *
+     * @returns
+     * The new subscription.
+     */
+    subscribe<T>(event: ISubscribable<T>, cb: SubFunction<T>, options?: ISubOptions): Subscription {
+        return this.add(event.subscribe(cb, options));
+    }
+
+    /**
+     * Cancels all subscriptions and nested groups, and the group itself,
+     * so any subscription added later is cancelled right away.
+     *
+     * @returns
+     * - `true` - the group has been cancelled
+     * - `false` - nothing happened, as the group was not live
+     */
+    cancel(): boolean {
+        if (!this._live) {
+            return false;
+        }
+        this._live = false;
+        const items = this._items;
+        this._items = [];
+        items.forEach(item => item.cancel());
+        return true;
+    }
+
+    /**
+     * Checks whether the group is among the nested groups, at any depth.
+     * @hidden
+     */
+    protected _contains(group: SubscriptionGroup): boolean {
+        return this._items.some(item => item instanceof SubscriptionGroup && (item === group || item._contains(group)));
+    }
+
+    /**
+     * Removes items that are no longer live, and returns the rest.
+     * @hidden
+     */
+    protected _prune(): SubscriptionItem[] {
+        this._items = this._items.filter(item => item.live);
+        return this._items;
+    }
+}
+
+// istanbul ignore else: we are not auto-testing in old environments
+if (typeof Symbol === 'function' && typeof (Symbol as any).dispose === 'symbol') {
+    (SubscriptionGroup.prototype as any)[(Symbol as any).dispose] = SubscriptionGroup.prototype.cancel;
+}
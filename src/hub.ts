@@ -0,0 +1,244 @@
+import {IEmitOptions, ISubOptions, ISubStat, Stat, SubFunction} from './event';
+import {ICountOptions, SubEventCount} from './count';
+import {EventConsumer} from './consumer';
+import {Subscription} from './sub';
+import {Private} from './utils';
+
+/**
+ * Constructor options for [[EventHub]] class, as a map of event names to their [[ICountOptions]].
+ */
+export type HubOptions<M> = { [K in keyof M]?: ICountOptions<M[K]> };
+
+/**
+ * Statistics for [[EventHub]], as a map of event names to their [[ISubStat]].
+ *
+ * It includes only events that have been used.
+ */
+export type HubStat<M> = { [K in keyof M]?: ISubStat };
+
+/**
+ * #### class EventHub\<M\>
+ *
+ * @class EventHub
+ * @description
+ * Strongly-typed hub of multiple events, as described by an event map interface,
+ * with each event backed by a [[SubEventCount]] that is created on first use.
+ *
+ * ```ts
+ * interface IMyEvents {
+ *     login: string;
+ *     logout: void;
+ *     progress: number;
+ * }
+ *
+ * const hub: EventHub<IMyEvents> = new EventHub();
+ *
+ * hub.subscribe('progress', (value: number) => {
+ *     // value = 50
+ * });
+ *
+ * hub.emit('progress', 50);
+ * ```
+ */
+export class EventHub<M> {
+
+    /**
+     * @hidden
+     */
+    readonly options: HubOptions<M>;
+
+    /**
+     * Events created so far.
+     * @hidden
+     */
+    protected _events = new Map<keyof M, SubEventCount<any>>();
+
+    /**
+     * @constructor
+     * Hub constructor.
+     *
+     * @param options
+     * Configuration Options, for each event name.
+     */
+    constructor(options?: HubOptions<M>) {
+        if (typeof (options ?? {}) !== 'object') {
+            throw new TypeError(Stat.errInvalidOptions);
+        }
+        this.options = options ?? {};
+    }
+
+    /**
+     * Returns the event object for the event name, creating it on first use.
+     *
+     * @param name
+     * Event name.
+     */
+    public event<K extends keyof M>(name: K): SubEventCount<M[K]> {
+        let e = this._events.get(name);
+        if (!e) {
+            e = new SubEventCount<M[K]>(this.options[name]);
+            this._events.set(name, e);
+        }
+        return e;
+    }
+
+    /**
+     * Subscribes to the named event.
+     *
+     * @see [[SubEvent.subscribe]]
+     */
+    public subscribe<K extends keyof M>(name: K, cb: SubFunction<M[K]>, options?: ISubOptions): Subscription {
+        return this.event(name).subscribe(cb, options);
+    }
+
+    /**
+     * Subscribes to receive just one named event.
+     *
+     * @see [[SubEvent.once]]
+     */
+    public once<K extends keyof M>(name: K, cb: SubFunction<M[K]>, options?: ISubOptions): Subscription {
+        return this.event(name).once(cb, options);
+    }
+
+    /**
+     * Broadcasts data to all subscribers of the named event.
+     *
+     * It does nothing, if the event has never been used.
+     *
+     * @see [[SubEvent.emit]]
+     *
+     * @returns
+     * The hub object itself.
+     */
+    public emit<K extends keyof M>(name: K, data: M[K], options?: IEmitOptions): this {
+        const e = this._events.get(name);
+        if (e) {
+            e.emit(data, options);
+        }
+        return this;
+    }
+
+    /**
+     * Creates a new subscription to the named event as a promise.
+     *
+     * @see [[SubEvent.toPromise]]
+     */
+    public toPromise<K extends keyof M>(name: K, options?: { name?: string, timeout?: number, signal?: AbortSignal }): Promise<M[K]> {
+        return this.event(name).toPromise(options);
+    }
+
+    /**
+     * Total number of live subscriptions, across all events.
+     */
+    public get count(): number {
+        let n = 0;
+        this._events.forEach(e => {
+            n += e.count;
+        });
+        return n;
+    }
+
+    /**
+     * Retrieves subscriptions statistics for all events used so far.
+     *
+     * @see [[SubEvent.getStat]]
+     */
+    public getStat(options?: { minUse?: number }): HubStat<M> {
+        const stat: HubStat<M> = {};
+        this._events.forEach((e, name) => {
+            stat[name] = e.getStat(options);
+        });
+        return stat;
+    }
+
+    /**
+     * Cancels all existing subscriptions, across all events.
+     *
+     * @returns
+     * Number of subscriptions cancelled.
+     *
+     * @see [[SubEvent.cancelAll]]
+     */
+    public cancelAll(): number {
+        let n = 0;
+        this._events.forEach(e => {
+            n += e.cancelAll();
+        });
+        return n;
+    }
+
+    /**
+     * Returns a new [[HubConsumer]] for the hub, which physically hides methods [[emit]] and [[cancelAll]].
+     */
+    public toConsumer(): HubConsumer<M> {
+        return new HubConsumer(this);
+    }
+}
+
+/**
+ * Private-property implementation.
+ *
+ * @hidden
+ */
+const pp = new Private<HubConsumer<any>, EventHub<any>>();
+
+/**
+ * #### class HubConsumer\<M\>
+ *
+ * Encapsulates an [[EventHub]], in order to hide its methods [[emit]] and [[cancelAll]],
+ * the same way [[EventConsumer]] does it for a single event.
+ */
+export class HubConsumer<M> {
+
+    /**
+     * Class Constructor.
+     *
+     * @param hub
+     * Hub object to be encapsulated.
+     */
+    constructor(hub: EventHub<M>) {
+        pp.set(this, hub);
+    }
+
+    /**
+     * Forwards into [[EventHub.count]] of the contained hub.
+     */
+    get count(): number {
+        return pp.get(this).count;
+    }
+
+    /**
+     * Returns an [[EventConsumer]] for the named event of the contained hub.
+     */
+    event<K extends keyof M>(name: K): EventConsumer<M[K]> {
+        return pp.get(this).event(name).toConsumer();
+    }
+
+    /**
+     * Forwards into [[EventHub.subscribe]] of the contained hub.
+     */
+    subscribe<K extends keyof M>(name: K, cb: SubFunction<M[K]>, options?: ISubOptions): Subscription {
+        return pp.get(this).subscribe(name, cb, options);
+    }
+
+    /**
+     * Forwards into [[EventHub.once]] of the contained hub.
+     */
+    once<K extends keyof M>(name: K, cb: SubFunction<M[K]>, options?: ISubOptions): Subscription {
+        return pp.get(this).once(name, cb, options);
+    }
+
+    /**
+     * Forwards into [[EventHub.toPromise]] of the contained hub.
+     */
+    toPromise<K extends keyof M>(name: K, options?: { name?: string, timeout?: number, signal?: AbortSignal }): Promise<M[K]> {
+        return pp.get(this).toPromise(name, options);
+    }
+
+    /**
+     * Forwards into [[EventHub.getStat]] of the contained hub.
+     */
+    getStat(options?: { minUse?: number }): HubStat<M> {
+        return pp.get(this).getStat(options);
+    }
+}
@@ -1,4 +1,16 @@
 export {Subscription} from './sub';
-export {SubEvent, SubFunction, ISubContext, IEventOptions, ISubOptions, ISubStat, EmitSchedule, IEmitOptions} from './event';
+export {SubscriptionGroup, SubscriptionItem} from './group';
+export {SubEvent, SubFunction, ISubContext, IEventOptions, IEventMetrics, ILeakInfo, ISubDescriptor, ISubOptions, ISubStat, EmitSchedule, IEmitOptions, IEmitAsyncOptions, ISubResult, QueueOverflow, IQueueOptions, IIterableOptions} from './event';
 export {SubEventCount, ISubCountChange, ICountOptions} from './count';
 export {EventConsumer} from './consumer';
+export {ReplayEvent, BehaviorEvent, IReplayOptions} from './replay';
+export {EventHub, HubConsumer, HubOptions, HubStat} from './hub';
+export {TopicRouter, ITopicMessage} from './topic';
+export {EventRegistry, IEventSnapshot, IRegistrySnapshot} from './registry';
+export {IContextManager, setContextManager} from './context';
+export {IClock, systemClock} from './clock';
+export {IScheduler, microtaskScheduler, immediateScheduler, FrameScheduler, VirtualScheduler} from './schedulers';
+export {IObservable, IObserver, IUnsubscribable, observable} from './observable';
+export {CancellableEvent, CancellableFunction, IEmitControl, IEmitStatus, ICancellableEmitOptions, ICancellableEmitAsyncOptions} from './cancellable';
+export {ISubscribable, Operator, IOperatorState, createOperator, map, filter, take, skip, distinctUntilChanged, debounce, throttle, bufferTime} from './operators';
+export {SourceValue, SourceValues, merge, combineLatest, zip, race} from './combine';
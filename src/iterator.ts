@@ -0,0 +1,127 @@
+import {IIterableOptions, QueueOverflow} from './event';
+import {ISubscribable} from './operators';
+import {Subscription} from './sub';
+
+/**
+ * Asynchronous iterator over event values, as returned by method [[toAsyncIterable]].
+ *
+ * It keeps one live subscription, and queues all values received in between
+ * iteration steps, so no value is missed.
+ *
+ * @hidden
+ */
+export class EventIterator<T> implements AsyncIterableIterator<T> {
+
+    /**
+     * Values received, but not yet iterated through.
+     */
+    private queue: T[] = [];
+
+    /**
+     * Pending requests for the next value.
+     */
+    private waiting: Array<{ resolve: (r: IteratorResult<T>) => void, reject: (err: any) => void }> = [];
+
+    /**
+     * Pending error, from queue overflow or the event failure.
+     */
+    private error: Error | null = null;
+
+    private done = false;
+
+    private sub: Subscription;
+
+    /**
+     * Set when the subscription is to be cancelled before it has been assigned,
+     * like on overflow from values replayed during the subscribe call.
+     */
+    private cancelled = false;
+
+    constructor(source: ISubscribable<T>, private options: IIterableOptions) {
+        const {name} = options;
+        this.sub = source.subscribe(data => this.receive(data), {
+            name,
+            onCancel: () => this.finish(),
+            onComplete: () => this.finish(),
+            onError: err => this.fail(err)
+        });
+        if (this.cancelled) {
+            this.sub.cancel();
+        }
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+
+    next(): Promise<IteratorResult<T>> {
+        if (this.queue.length) {
+            return Promise.resolve({value: this.queue.shift() as T, done: false});
+        }
+        if (this.error) {
+            const err = this.error;
+            this.error = null;
+            return Promise.reject(err);
+        }
+        if (this.done) {
+            return Promise.resolve({value: undefined, done: true});
+        }
+        return new Promise((resolve, reject) => {
+            this.waiting.push({resolve, reject});
+        });
+    }
+
+    return(): Promise<IteratorResult<T>> {
+        this.queue.length = 0;
+        this.sub.cancel();
+        return Promise.resolve({value: undefined, done: true});
+    }
+
+    private receive(data: T) {
+        if (this.done) {
+            return; // failed on overflow, while still subscribed
+        }
+        const w = this.waiting.shift();
+        if (w) {
+            w.resolve({value: data, done: false});
+            return;
+        }
+        const {maxSize = 0, overflow = QueueOverflow.dropOldest} = this.options;
+        if (maxSize > 0 && this.queue.length >= maxSize) {
+            switch (overflow) {
+                case QueueOverflow.dropNewest:
+                    return;
+                case QueueOverflow.throw:
+                    const name = this.options.name;
+                    this.queue.length = 0;
+                    this.fail(new Error(name ? `Event "${name}" queue overflow.` : `Event queue overflow.`));
+                    if (this.sub) {
+                        this.sub.cancel();
+                    } else {
+                        this.cancelled = true; // still inside the subscribe call
+                    }
+                    return;
+                default:
+                    this.queue.shift();
+                    break;
+            }
+        }
+        this.queue.push(data);
+    }
+
+    private fail(err: any) {
+        const w = this.waiting.shift();
+        if (w) {
+            w.reject(err);
+        } else {
+            this.error = err;
+        }
+        this.finish();
+    }
+
+    private finish() {
+        this.done = true;
+        this.waiting.forEach(w => w.resolve({value: undefined, done: true}));
+        this.waiting.length = 0;
+    }
+}
@@ -0,0 +1,96 @@
+import {ISubscribable} from './operators';
+
+/**
+ * @interface IObserver
+ * @description
+ * Observer, as used by the standard Observable.
+ */
+export interface IObserver<T> {
+    next?: (value: T) => void;
+    error?: (err: any) => void;
+    complete?: () => void;
+}
+
+/**
+ * @interface IUnsubscribable
+ * @description
+ * Subscription, as returned by the standard Observable.
+ */
+export interface IUnsubscribable {
+    readonly closed: boolean;
+
+    unsubscribe(): void;
+}
+
+/**
+ * @interface IObservable
+ * @description
+ * Standard Observable, compatible with RxJS and the TC39 proposal.
+ */
+export interface IObservable<T> {
+    subscribe(observer?: IObserver<T> | ((value: T) => void)): IUnsubscribable;
+}
+
+/**
+ * Interop property name of the standard Observable, which is `Symbol.observable`
+ * when it exists, or else the `@@observable` string used by RxJS.
+ */
+export const observable: symbol | string = (typeof Symbol === 'function' && (Symbol as any).observable) || '@@observable';
+
+/**
+ * Creates a standard Observable from any event source.
+ *
+ * Each Observable subscription creates a new event subscription, which is cancelled
+ * when the Observable subscription is unsubscribed. When the event subscription is cancelled
+ * in any other way, like via [[cancelAll]], the observer is notified of completion.
+ * Methods [[complete]] and [[error]] of the event are passed on to the observer.
+ *
+ * @hidden
+ */
+export function toObservable<T>(source: ISubscribable<T>): IObservable<T> {
+    const obs: IObservable<T> = {
+        subscribe(observer?: IObserver<T> | ((value: T) => void)): IUnsubscribable {
+            const o: IObserver<T> = typeof observer === 'function' ? {next: observer} : observer || {};
+            let closed = false;
+            const sub = source.subscribe(data => {
+                if (o.next) {
+                    o.next(data);
+                }
+            }, {
+                onCancel: () => {
+                    if (!closed) {
+                        closed = true;
+                        if (o.complete) {
+                            o.complete();
+                        }
+                    }
+                },
+                onComplete: () => {
+                    closed = true;
+                    if (o.complete) {
+                        o.complete();
+                    }
+                },
+                onError: err => {
+                    closed = true;
+                    if (o.error) {
+                        o.error(err);
+                    }
+                }
+            });
+            return {
+                get closed() {
+                    return closed;
+                },
+                unsubscribe() {
+                    closed = true;
+                    sub.cancel();
+                }
+            };
+        },
+        [observable](): IObservable<T> {
+            return obs;
+        }
+    };
+    return obs;
+}
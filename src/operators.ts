@@ -0,0 +1,250 @@
+import {ISubOptions, SubFunction} from './event';
+import {SubEventCount} from './count';
+import {Subscription} from './sub';
+
+/**
+ * @interface ISubscribable
+ * @description
+ * Any event source that can be subscribed to, which includes [[SubEvent]] and [[EventConsumer]].
+ */
+export interface ISubscribable<T> {
+    subscribe(cb: SubFunction<T>, options?: ISubOptions): Subscription;
+}
+
+/**
+ * Operator function, as used by method [[pipe]].
+ *
+ * It takes a source event, and returns a new derived event.
+ */
+export type Operator<T, R> = (source: ISubscribable<T>) => SubEventCount<R>;
+
+/**
+ * @interface IOperatorState
+ * @description
+ * Operator state, as created by the operator's `init` function, for every fresh
+ * upstream subscription.
+ */
+export interface IOperatorState<T> {
+    /**
+     * Handles data received from the source event.
+     */
+    next: (data: T) => void;
+
+    /**
+     * Optional clean-up, called when the upstream subscription is cancelled.
+     */
+    stop?: () => void;
+}
+
+/**
+ * Creates a lazy event, which calls `start` when the first subscriber registers, and then
+ * calls the function returned by `start` when the last subscription is cancelled.
+ *
+ * @hidden
+ */
+export function lazyEvent<R>(start: (target: SubEventCount<R>) => () => void): SubEventCount<R> {
+    const target: SubEventCount<R> = new SubEventCount();
+    let stop: (() => void) | null = null, ended = false;
+    target.onCount.subscribe(info => {
+        if (info.prevCount === 0) {
+            ended = false;
+            const s = start(target); // fresh start
+            if (ended) {
+                s(); // ended during the start, like when the source is already closed
+            } else {
+                stop = s;
+            }
+        } else {
+            if (info.newCount === 0) {
+                if (stop) {
+                    stop(); // no subscriptions left
+                    stop = null;
+                } else {
+                    ended = true;
+                }
+            }
+        }
+    });
+    return target;
+}
+
+/**
+ * Creates a custom operator, to be used with method [[pipe]].
+ *
+ * The resulting event subscribes to the source only while it has subscribers of its own,
+ * and function `init` is called for every such fresh upstream subscription, to create
+ * a new operator state. It completes or fails together with the source.
+ *
+ * ```ts
+ * const double = createOperator<number, number>(target => ({
+ *     next: data => target.emit(data * 2)
+ * }));
+ * ```
+ *
+ * @param init
+ * Operator state initializer.
+ */
+export function createOperator<T, R>(init: (target: SubEventCount<R>) => IOperatorState<T>): Operator<T, R> {
+    return (source: ISubscribable<T>) => lazyEvent<R>(target => {
+        const state = init(target);
+        const sub = source.subscribe(data => state.next(data), {
+            onComplete: () => target.complete(),
+            onError: err => target.error(err)
+        });
+        return () => {
+            sub.cancel();
+            if (state.stop) {
+                state.stop();
+            }
+        };
+    });
+}
+
+/**
+ * Re-emits every value, as transformed by the callback.
+ */
+export function map<T, R>(cb: (data: T) => R): Operator<T, R> {
+    return createOperator<T, R>(target => ({
+        next: data => target.emit(cb(data))
+    }));
+}
+
+/**
+ * Re-emits only values that pass the predicate.
+ */
+export function filter<T>(cb: (data: T) => boolean): Operator<T, T> {
+    return createOperator<T, T>(target => ({
+        next: data => {
+            if (cb(data)) {
+                target.emit(data);
+            }
+        }
+    }));
+}
+
+/**
+ * Re-emits only the first `count` values, and then cancels all subscriptions.
+ */
+export function take<T>(count: number): Operator<T, T> {
+    return createOperator<T, T>(target => {
+        let n = 0;
+        return {
+            next: data => {
+                if (n++ < count) {
+                    target.emit(data);
+                }
+                if (n >= count) {
+                    target.cancelAll();
+                }
+            }
+        };
+    });
+}
+
+/**
+ * Skips the first `count` values, and re-emits all the values after that.
+ */
+export function skip<T>(count: number): Operator<T, T> {
+    return createOperator<T, T>(target => {
+        let n = 0;
+        return {
+            next: data => {
+                if (n < count) {
+                    n++;
+                } else {
+                    target.emit(data);
+                }
+            }
+        };
+    });
+}
+
+/**
+ * Re-emits only values that are different from the previous value.
+ *
+ * @param compare
+ * Optional equality check, with strict `===` used by default.
+ */
+export function distinctUntilChanged<T>(compare?: (a: T, b: T) => boolean): Operator<T, T> {
+    const eq = compare ?? ((a: T, b: T) => a === b);
+    return createOperator<T, T>(target => {
+        let first = true, last: T;
+        return {
+            next: data => {
+                if (first || !eq(last, data)) {
+                    first = false;
+                    last = data;
+                    target.emit(data);
+                }
+            }
+        };
+    });
+}
+
+/**
+ * Re-emits a value only after `timeout` ms has passed without another value from the source.
+ */
+export function debounce<T>(timeout: number): Operator<T, T> {
+    return createOperator<T, T>(target => {
+        let timer: any;
+        return {
+            next: data => {
+                clearTimeout(timer);
+                timer = setTimeout(() => {
+                    target.emit(data);
+                }, timeout);
+            },
+            stop: () => {
+                clearTimeout(timer);
+            }
+        };
+    });
+}
+
+/**
+ * Re-emits a value, and then ignores all values from the source for `timeout` ms.
+ */
+export function throttle<T>(timeout: number): Operator<T, T> {
+    return createOperator<T, T>(target => {
+        let timer: any = null;
+        return {
+            next: data => {
+                if (!timer) {
+                    timer = setTimeout(() => {
+                        timer = null;
+                    }, timeout);
+                    target.emit(data);
+                }
+            },
+            stop: () => {
+                clearTimeout(timer);
+            }
+        };
+    });
+}
+
+/**
+ * Collects values from the source, and re-emits them as an array every `timeout` ms.
+ *
+ * Empty arrays are not emitted.
+ */
+export function bufferTime<T>(timeout: number): Operator<T, T[]> {
+    return createOperator<T, T[]>(target => {
+        let buffer: T[] = [];
+        const timer = setInterval(() => {
+            if (buffer.length) {
+                const data = buffer;
+                buffer = [];
+                target.emit(data);
+            }
+        }, timeout);
+        return {
+            next: data => {
+                buffer.push(data);
+            },
+            stop: () => {
+                clearInterval(timer);
+            }
+        };
+    });
+}
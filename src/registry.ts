@@ -0,0 +1,201 @@
+import {ISubStat, SubEvent} from './event';
+import {WeakOwner} from './utils';
+
+/**
+ * @interface IEventSnapshot
+ * @description
+ * Diagnostics of one registered event, as included in [[IRegistrySnapshot]].
+ */
+export interface IEventSnapshot {
+    /**
+     * Label of the event, as used for its registration.
+     */
+    label: string;
+
+    /**
+     * Current number of live subscriptions.
+     */
+    count: number;
+
+    /**
+     * Maximum number of subscribers that can receive events.
+     */
+    maxSubs: number;
+
+    /**
+     * Indicates whether the event is in the terminal state, after [[complete]] or [[error]].
+     */
+    closed: boolean;
+
+    /**
+     * Subscriptions statistics, as returned by method [[getStat]].
+     */
+    stat: ISubStat;
+}
+
+/**
+ * @interface IRegistrySnapshot
+ * @description
+ * Diagnostics of all live registered events, as returned by [[EventRegistry.snapshot]].
+ */
+export interface IRegistrySnapshot {
+    /**
+     * Time when the snapshot was taken, as returned by `Date.now()`.
+     */
+    time: number;
+
+    /**
+     * Total number of live subscriptions, across all the events.
+     */
+    count: number;
+
+    /**
+     * Diagnostics of every event, in the order of registration.
+     */
+    events: IEventSnapshot[];
+}
+
+/**
+ * Reference to a registered event.
+ *
+ * @hidden
+ */
+interface IEventRef {
+    get(): SubEvent<any> | undefined;
+
+    release(): void;
+}
+
+/**
+ * Registered events, with their labels.
+ *
+ * @hidden
+ */
+const entries = new Map<IEventRef, string>();
+
+// istanbul ignore next: we are not auto-testing in old environments
+/**
+ * Creates a strong reference to the event, when weak references are not supported.
+ *
+ * @hidden
+ */
+function strongRef(event: SubEvent<any>): IEventRef {
+    return {get: () => event, release: () => null};
+}
+
+/**
+ * #### class EventRegistry
+ *
+ * @class EventRegistry
+ * @description
+ * Opt-in, process-wide registry of events, for diagnostics across all modules.
+ *
+ * Events are registered automatically when created with option `label`,
+ * or explicitly, via method [[register]]:
+ *
+ * ```ts
+ * import {EventRegistry, SubEvent} from 'sub-events';
+ *
+ * const onMessage = new SubEvent<string>({label: 'chat.message'}); // registered
+ *
+ * // for a health endpoint:
+ * app.get('/health/events', (req, res) => {
+ *     res.type('json').send(EventRegistry.toJSON());
+ * });
+ * ```
+ *
+ * Events are held weakly, so the registry never prevents them from being garbage-collected,
+ * provided `WeakRef` and `FinalizationRegistry` are supported, or else they are held
+ * until unregistered.
+ */
+export class EventRegistry {
+
+    /**
+     * Registers an event with a label, replacing any previous registration of the same event.
+     *
+     * @param event
+     * Event to be registered.
+     *
+     * @param label
+     * Event label, to be reported in snapshots. It does not need to be unique.
+     */
+    static register(event: SubEvent<any>, label: string) {
+        EventRegistry.unregister(event);
+        const ref: IEventRef = WeakOwner.supported ? new WeakOwner(event, () => entries.delete(ref)) : /* istanbul ignore next */ strongRef(event);
+        entries.set(ref, label);
+    }
+
+    /**
+     * Removes the event from the registry.
+     *
+     * @param event
+     * Event to be unregistered.
+     *
+     * @returns
+     * - `true` - the event has been unregistered
+     * - `false` - nothing happened, as the event was not registered
+     */
+    static unregister(event: SubEvent<any>): boolean {
+        let found: IEventRef | undefined;
+        entries.forEach((label, ref) => {
+            if (ref.get() === event) {
+                found = ref;
+            }
+        });
+        if (found) {
+            found.release();
+            entries.delete(found);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Number of live registered events.
+     */
+    static get size(): number {
+        return EventRegistry.events().length;
+    }
+
+    /**
+     * Gets all live registered events, with their labels, in the order of registration.
+     */
+    static events(): Array<{ label: string, event: SubEvent<any> }> {
+        const res: Array<{ label: string, event: SubEvent<any> }> = [];
+        entries.forEach((label, ref) => {
+            const event = ref.get();
+            if (event) {
+                res.push({label, event});
+            }
+        });
+        return res;
+    }
+
+    /**
+     * Aggregates diagnostics of all live registered events.
+     *
+     * @param options
+     * Statistics Options, as used by method [[getStat]].
+     */
+    static snapshot(options?: { minUse?: number }): IRegistrySnapshot {
+        let count = 0;
+        const events = EventRegistry.events().map(({label, event}): IEventSnapshot => {
+            count += event.count;
+            return {label, count: event.count, maxSubs: event.maxSubs, closed: event.closed, stat: event.getStat(options)};
+        });
+        return {time: Date.now(), count, events};
+    }
+
+    /**
+     * Returns [[snapshot]] as a JSON string, for health endpoints or heap investigations.
+     *
+     * @param options
+     * Statistics Options, as used by method [[getStat]].
+     *
+     * @param space
+     * Indentation, as used by `JSON.stringify`.
+     */
+    static toJSON(options?: { minUse?: number }, space?: string | number): string {
+        return JSON.stringify(EventRegistry.snapshot(options), null, space);
+    }
+}
@@ -0,0 +1,223 @@
+import {IEmitOptions, IEventOptions, ISubOptions, ISubscriber, SubEvent, SubFunction} from './event';
+import {Subscription} from './sub';
+
+/**
+ * @interface IReplayOptions
+ * @description
+ * Constructor options for [[ReplayEvent]] class.
+ */
+export interface IReplayOptions<T> extends IEventOptions<T> {
+    /**
+     * Maximum number of last values to be replayed to new subscribers. Default is 1.
+     */
+    bufferSize?: number;
+
+    /**
+     * Maximum age of the values to be replayed, in ms. Default is 0, meaning `no limit applies`.
+     */
+    maxAge?: number;
+}
+
+/**
+ * Cached value, with the details of how it was emitted.
+ * @hidden
+ */
+interface ICachedValue<T> {
+    data: T;
+    time: number;
+    onError?: (err: any, name?: string) => void;
+}
+
+/**
+ * #### class ReplayEvent\<T = unknown\> extends SubEvent\<T\>
+ *
+ * @class ReplayEvent
+ * @description
+ * Extends [[SubEvent]] to replay the last emitted values to every new subscriber,
+ * immediately after subscribing.
+ *
+ * ```ts
+ * const e: ReplayEvent<number> = new ReplayEvent({bufferSize: 2});
+ *
+ * e.emit(1).emit(2).emit(3);
+ *
+ * e.subscribe(data => {
+ *     // data = 2, and then 3
+ * });
+ * ```
+ *
+ * Values are replayed with respect to the subscription's `thisArg` and `name` options,
+ * and errors are passed into the `onError` handler that was used when emitting the value.
+ * New subscribers outside of the [[maxSubs]] quota do not receive any replay.
+ *
+ * Values are cached at the time of calling [[emit]], so with a non-`sync` schedule,
+ * a subscriber added in between can receive the same value twice.
+ */
+export class ReplayEvent<T = unknown> extends SubEvent<T> {
+
+    /**
+     * Cached values, from oldest to newest.
+     * @hidden
+     */
+    protected _cache: ICachedValue<T>[] = [];
+
+    /**
+     * Subscriber being added, to be picked up for the replay.
+     * @hidden
+     */
+    private _added?: ISubscriber<T>;
+
+    /**
+     * @constructor
+     * Event constructor.
+     *
+     * @param options
+     * Configuration Options.
+     */
+    constructor(options?: IReplayOptions<T>) {
+        super(options);
+    }
+
+    /**
+     * Subscribes to the event, and replays the cached values to the new subscriber.
+     *
+     * @see [[SubEvent.subscribe]]
+     */
+    public subscribe(cb: SubFunction<T>, options?: ISubOptions): Subscription {
+        const subscription = super.subscribe(cb, options);
+        const sub = this._added as ISubscriber<T>;
+        this._added = undefined;
+        if (this._getRecipients().indexOf(sub) >= 0) {
+            this._getCache().forEach(v => this._call(sub, [v.data], v.onError));
+        }
+        return subscription;
+    }
+
+    /**
+     * Subscribes to receive just one event, which can be a replayed value.
+     *
+     * @see [[SubEvent.once]]
+     */
+    public once(cb: SubFunction<T>, options?: ISubOptions): Subscription {
+        let sub: Subscription | undefined, received = false;
+        sub = this.subscribe(function (this: any, data: T) {
+            if (!received) {
+                received = true;
+                if (sub) {
+                    sub.cancel();
+                }
+                return cb.call(this, data);
+            }
+        }, options);
+        if (received) {
+            sub.cancel(); // received during the replay
+        }
+        return sub;
+    }
+
+    /**
+     * Caches the value, and broadcasts it to all subscribers.
+     * Once the event is [[closed]], it does nothing.
+     *
+     * @see [[SubEvent.emit]]
+     */
+    public emit(data: T, options?: IEmitOptions): this {
+        if (this.closed) {
+            return super.emit(data, options);
+        }
+        const bufferSize = (this.options as IReplayOptions<T>).bufferSize ?? 1;
+        const onError = options && typeof options.onError === 'function' ? options.onError : undefined;
+        this._cache.push({data, time: this._clock.now(), onError});
+        if (this._cache.length > bufferSize) {
+            this._cache.splice(0, this._cache.length - bufferSize);
+        }
+        return super.emit(data, options);
+    }
+
+    /**
+     * Resolves immediately with the last cached value, if there is one, and the abort signal
+     * (if set via option `signal`) has not been aborted, and the event is not [[closed]],
+     * or else creates a new subscription as a promise.
+     *
+     * @see [[SubEvent.toPromise]]
+     */
+    public toPromise(options?: { name?: string, timeout?: number, signal?: AbortSignal }): Promise<T> {
+        const cache = this._getCache();
+        const aborted = !!(options && options.signal && options.signal.aborted);
+        if (cache.length && typeof (options ?? {}) === 'object' && !aborted && !this.closed) {
+            return Promise.resolve(cache[cache.length - 1].data);
+        }
+        return super.toPromise(options);
+    }
+
+    /**
+     * Overrides base implementation, to pick up the new subscriber for the replay.
+     * @hidden
+     */
+    protected _createCancel(sub: ISubscriber<T>): () => void {
+        this._added = sub;
+        return super._createCancel(sub);
+    }
+
+    /**
+     * Removes expired values from the cache, and returns the cache.
+     * @hidden
+     */
+    protected _getCache(): ICachedValue<T>[] {
+        const maxAge = (this.options as IReplayOptions<T>).maxAge ?? 0;
+        if (maxAge > 0) {
+            const now = this._clock.now();
+            while (this._cache.length && now - this._cache[0].time > maxAge) {
+                this._cache.shift();
+            }
+        }
+        return this._cache;
+    }
+}
+
+/**
+ * #### class BehaviorEvent\<T = unknown\> extends ReplayEvent\<T\>
+ *
+ * @class BehaviorEvent
+ * @description
+ * Extends [[ReplayEvent]] to hold the current value, starting with the initial one,
+ * which every new subscriber receives immediately.
+ *
+ * ```ts
+ * const state: BehaviorEvent<string> = new BehaviorEvent('idle');
+ *
+ * state.subscribe(data => {
+ *     // data = 'idle', and then 'busy'
+ * });
+ *
+ * state.emit('busy');
+ *
+ * state.value; //=> 'busy'
+ * ```
+ */
+export class BehaviorEvent<T = unknown> extends ReplayEvent<T> {
+
+    /**
+     * @constructor
+     * Event constructor.
+     *
+     * @param initial
+     * Initial value.
+     *
+     * @param options
+     * Configuration Options.
+     */
+    constructor(initial: T, options?: IEventOptions<T>) {
+        super(options);
+        this._cache.push({data: initial, time: this._clock.now()});
+    }
+
+    /**
+     * Current value, i.e. the last value emitted, or the initial one.
+     *
+     * It relies on the [[ReplayEvent]] defaults: `bufferSize` = 1, and no `maxAge`.
+     */
+    public get value(): T {
+        return this._cache[0].data;
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * @interface IScheduler
+ * @description
+ * Custom schedule for emitting / broadcasting data to subscribers, which can be passed
+ * into option `schedule` of [[IEmitOptions]], in place of an [[EmitSchedule]] value.
+ *
+ * The data is broadcast to all subscribers synchronously, from within the scheduled callback,
+ * so subscribers are enumerated after the delay, as with schedule `next`.
+ */
+export interface IScheduler {
+    /**
+     * Schedules the callback to be called later.
+     *
+     * @param cb
+     * Callback to be called.
+     */
+    schedule(cb: () => void): void;
+}
+
+// istanbul ignore next: we are not auto-testing in old environments
+/**
+ * Global scope, to access optional scheduling functions.
+ *
+ * @hidden
+ */
+const root: any = typeof globalThis === 'undefined' ? {} : globalThis;
+
+/**
+ * Schedules broadcasts as microtasks, via `queueMicrotask`, or a resolved promise,
+ * when `queueMicrotask` is not supported.
+ */
+export const microtaskScheduler: IScheduler = {
+    schedule(cb: () => void) {
+        // istanbul ignore else: we are not auto-testing in old environments
+        if (typeof root.queueMicrotask === 'function') {
+            root.queueMicrotask(cb);
+        } else {
+            Promise.resolve().then(cb);
+        }
+    }
+};
+
+/**
+ * Schedules broadcasts via `setImmediate`, or `setTimeout`, when `setImmediate` is not supported.
+ */
+export const immediateScheduler: IScheduler = {
+    schedule(cb: () => void) {
+        // istanbul ignore else: we are not auto-testing in the browser
+        if (typeof root.setImmediate === 'function') {
+            root.setImmediate(cb);
+        } else {
+            setTimeout(cb);
+        }
+    }
+};
+
+/**
+ * #### class FrameScheduler
+ *
+ * @class FrameScheduler
+ * @description
+ * Batches all broadcasts scheduled in between frames into one animation frame,
+ * via `requestAnimationFrame`, when it is supported, or else via `setTimeout`,
+ * at about 60 frames per second.
+ *
+ * ```ts
+ * const frame = new FrameScheduler();
+ *
+ * onResize.emit(size, {schedule: frame}); // delivered with the next frame
+ * ```
+ */
+export class FrameScheduler implements IScheduler {
+
+    /**
+     * Callbacks waiting for the next frame.
+     * @hidden
+     */
+    protected _queue: Array<() => void> = [];
+
+    /**
+     * @hidden
+     */
+    protected _request: (cb: () => void) => any;
+
+    /**
+     * @constructor
+     *
+     * @param requestFrame
+     * Optional function for requesting the next frame, to replace the default one.
+     */
+    constructor(requestFrame?: (cb: () => void) => any) {
+        // istanbul ignore next: we are not auto-testing in the browser
+        this._request = requestFrame ?? (typeof root.requestAnimationFrame === 'function' ?
+            (cb: () => void) => root.requestAnimationFrame(cb) : (cb: () => void) => setTimeout(cb, 16));
+    }
+
+    /**
+     * Schedules the callback for the next frame.
+     *
+     * Every callback in the frame is run in isolation: an error thrown by one of them
+     * is re-thrown asynchronously, after which the rest of the frame is still run.
+     */
+    schedule(cb: () => void) {
+        this._queue.push(cb);
+        if (this._queue.length === 1) {
+            this._request(() => {
+                const q = this._queue;
+                this._queue = [];
+                q.forEach(c => {
+                    try {
+                        c();
+                    } catch (err) {
+                        setTimeout(() => {
+                            throw err;
+                        });
+                    }
+                });
+            });
+        }
+    }
+}
+
+/**
+ * #### class VirtualScheduler
+ *
+ * @class VirtualScheduler
+ * @description
+ * Scheduler for tests, which holds all the scheduled broadcasts until they are
+ * run explicitly, via method [[flush]] or [[step]].
+ *
+ * ```ts
+ * const scheduler = new VirtualScheduler();
+ *
+ * e.emit(1, {schedule: scheduler}); // nothing is delivered yet
+ *
+ * scheduler.flush(); // now the data has been delivered
+ * ```
+ */
+export class VirtualScheduler implements IScheduler {
+
+    /**
+     * Scheduled callbacks, in the order of scheduling.
+     * @hidden
+     */
+    protected _queue: Array<() => void> = [];
+
+    /**
+     * Number of scheduled callbacks that have not been run yet.
+     */
+    get pending(): number {
+        return this._queue.length;
+    }
+
+    /**
+     * Schedules the callback, to be run via [[flush]] or [[step]].
+     */
+    schedule(cb: () => void) {
+        this._queue.push(cb);
+    }
+
+    /**
+     * Runs the first scheduled callback.
+     *
+     * @returns
+     * `false` when there was nothing to run.
+     */
+    step(): boolean {
+        const cb = this._queue.shift();
+        if (cb) {
+            cb();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Runs all scheduled callbacks, including those scheduled while running.
+     *
+     * @returns
+     * Number of callbacks that have been run.
+     */
+    flush(): number {
+        let n = 0;
+        while (this.step()) {
+            n++;
+        }
+        return n;
+    }
+}
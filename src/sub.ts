@@ -13,6 +13,11 @@ export class Subscription {
      */
     private _cancel: null | (() => void);
 
+    /**
+     * @hidden
+     */
+    private _ac?: AbortController;
+
     /**
      * Subscription's `name` option, if it was set with method [[subscribe]].
      */
@@ -28,9 +33,37 @@ export class Subscription {
         init.sub.cancel = () => {
             this._cancel = null;
             cc();
+            this._abort();
         };
     }
 
+    /**
+     * Signal that aborts when the subscription stops being [[live]], whether via [[cancel]],
+     * [[cancelAll]], or any other way, to chain the subscription lifetime into abortable APIs:
+     *
+     * ```ts
+     * const sub = event.subscribe(data => {
+     *     fetch(url, {method: 'POST', body: data, signal: sub.signal});
+     * });
+     * ```
+     *
+     * It is created on the first access, which requires support for `AbortController`,
+     * or else it throws an error.
+     */
+    public get signal(): AbortSignal {
+        if (!this._ac) {
+            // istanbul ignore if: we are not auto-testing in old environments
+            if (typeof AbortController === 'undefined') {
+                throw new TypeError(`Subscription signal requires AbortController support.`);
+            }
+            this._ac = new AbortController();
+            if (!this._cancel) {
+                this._ac.abort();
+            }
+        }
+        return this._ac.signal;
+    }
+
     /**
      * Indicates whether the subscription is live / active.
      *
@@ -55,9 +88,19 @@ export class Subscription {
         if (this._cancel) {
             this._cancel();
             this._cancel = null;
+            this._abort();
             return true;
         }
         return false;
     }
 
+    /**
+     * Aborts the signal, if it has been created.
+     * @hidden
+     */
+    private _abort() {
+        if (this._ac && !this._ac.signal.aborted) {
+            this._ac.abort();
+        }
+    }
 }
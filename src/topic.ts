@@ -0,0 +1,220 @@
+import {IEmitOptions, ISubOptions, ISubStat, SubEvent, SubFunction} from './event';
+import {Subscription} from './sub';
+
+/**
+ * @interface ITopicMessage
+ * @description
+ * Data delivered to subscribers of [[TopicRouter]].
+ */
+export interface ITopicMessage<T> {
+    /**
+     * Concrete topic that the data was emitted to.
+     */
+    topic: string;
+
+    /**
+     * Emitted data.
+     */
+    data: T;
+}
+
+/**
+ * #### class TopicRouter\<T = unknown\>
+ *
+ * @class TopicRouter
+ * @description
+ * Routes data emitted to concrete topics into subscriptions for topic patterns.
+ *
+ * Topics consist of segments separated by dots, like `order.eu.created`, while patterns
+ * can use wildcards in place of segments:
+ *
+ *  - `*` matches exactly one segment, as in `order.*.created`;
+ *  - `#` matches zero or more segments, as in `order.#`.
+ *
+ * ```ts
+ * const router: TopicRouter<IOrder> = new TopicRouter();
+ *
+ * router.subscribe('order.#', msg => {
+ *     // msg = {topic: 'order.eu.created', data: order}
+ * });
+ *
+ * router.emit('order.eu.created', order);
+ * ```
+ *
+ * Each pattern is backed by its own [[SubEvent]], which exists only while the pattern has subscriptions.
+ */
+export class TopicRouter<T = unknown> {
+
+    /**
+     * Events for all patterns that have subscriptions.
+     * @hidden
+     */
+    protected _events = new Map<string, SubEvent<ITopicMessage<T>>>();
+
+    /**
+     * Subscribes to all topics that match the pattern.
+     *
+     * @param pattern
+     * Topic pattern, which can be a concrete topic.
+     *
+     * @param cb
+     * Event notification callback function.
+     *
+     * @param options
+     * Subscription Options.
+     *
+     * @see [[SubEvent.subscribe]]
+     */
+    public subscribe(pattern: string, cb: SubFunction<ITopicMessage<T>>, options?: ISubOptions): Subscription {
+        return this._subscribe(pattern, e => e.subscribe(cb, options));
+    }
+
+    /**
+     * Subscribes to receive just one message from topics that match the pattern.
+     *
+     * @see [[SubEvent.once]]
+     */
+    public once(pattern: string, cb: SubFunction<ITopicMessage<T>>, options?: ISubOptions): Subscription {
+        return this._subscribe(pattern, e => e.once(cb, options));
+    }
+
+    /**
+     * Broadcasts data to subscribers of all patterns that match the topic.
+     *
+     * Emit options apply to each matching pattern separately.
+     *
+     * @param topic
+     * Concrete topic, without wildcards.
+     *
+     * @param data
+     * Data to be sent, according to the template type.
+     *
+     * @param options
+     * Event-emitting options.
+     *
+     * @returns
+     * The router object itself.
+     */
+    public emit(topic: string, data: T, options?: IEmitOptions): this {
+        const t = topic.split('.');
+        if (t.some(s => s === '*' || s === '#')) {
+            throw new TypeError(`Invalid topic "${topic}".`);
+        }
+        const events: SubEvent<ITopicMessage<T>>[] = [];
+        this._events.forEach((e, pattern) => {
+            if (matchSegments(pattern.split('.'), t, 0, 0)) {
+                events.push(e); // patterns added during the emit are not included
+            }
+        });
+        events.forEach(e => e.emit({topic, data}, options));
+        return this;
+    }
+
+    /**
+     * Total number of live subscriptions, across all patterns.
+     */
+    public get count(): number {
+        let n = 0;
+        this._events.forEach(e => {
+            n += e.count;
+        });
+        return n;
+    }
+
+    /**
+     * Retrieves subscriptions statistics, as a map of patterns to their [[ISubStat]].
+     *
+     * @see [[SubEvent.getStat]]
+     */
+    public getStat(options?: { minUse?: number }): { [pattern: string]: ISubStat } {
+        const stat: { [pattern: string]: ISubStat } = {};
+        this._events.forEach((e, pattern) => {
+            stat[pattern] = e.getStat(options);
+        });
+        return stat;
+    }
+
+    /**
+     * Cancels all existing subscriptions, across all patterns.
+     *
+     * @returns
+     * Number of subscriptions cancelled.
+     */
+    public cancelAll(): number {
+        let n = 0;
+        this._events.forEach(e => {
+            n += e.cancelAll();
+        });
+        return n;
+    }
+
+    /**
+     * Checks whether a concrete topic matches the topic pattern.
+     *
+     * @param pattern
+     * Topic pattern.
+     *
+     * @param topic
+     * Concrete topic.
+     */
+    public static match(pattern: string, topic: string): boolean {
+        return matchSegments(pattern.split('.'), topic.split('.'), 0, 0);
+    }
+
+    /**
+     * Subscribes to the event for the pattern, and removes the event, if no subscription
+     * has been created, like for an already aborted signal.
+     * @hidden
+     */
+    protected _subscribe(pattern: string, subscribe: (e: SubEvent<ITopicMessage<T>>) => Subscription): Subscription {
+        const e = this._getEvent(pattern);
+        const sub = subscribe(e);
+        if (!e.count) {
+            this._events.delete(pattern);
+        }
+        return sub;
+    }
+
+    /**
+     * Returns the event for the pattern, creating it when needed.
+     * @hidden
+     */
+    protected _getEvent(pattern: string): SubEvent<ITopicMessage<T>> {
+        let e = this._events.get(pattern);
+        if (!e) {
+            e = new SubEvent<ITopicMessage<T>>({
+                onCancel: ctx => {
+                    if (!ctx.event.count) {
+                        this._events.delete(pattern); // no subscriptions left
+                    }
+                }
+            });
+            this._events.set(pattern, e);
+        }
+        return e;
+    }
+}
+
+/**
+ * Matches topic segments against pattern segments, starting from the specified positions.
+ *
+ * @hidden
+ */
+function matchSegments(p: string[], t: string[], i: number, j: number): boolean {
+    while (i < p.length) {
+        if (p[i] === '#') {
+            for (let k = j; k <= t.length; k++) {
+                if (matchSegments(p, t, i + 1, k)) {
+                    return true;
+                }
+            }
+            return false;
+        }
+        if (j === t.length || (p[i] !== '*' && p[i] !== t[j])) {
+            return false;
+        }
+        i++;
+        j++;
+    }
+    return j === t.length;
+}
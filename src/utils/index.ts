@@ -1 +1,2 @@
 export {Private} from './private';
+export {WeakOwner} from './weak';
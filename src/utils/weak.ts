@@ -0,0 +1,60 @@
+// istanbul ignore next: we are not auto-testing in old environments
+/**
+ * Global scope, to access WeakRef and FinalizationRegistry, when they are supported.
+ *
+ * @hidden
+ */
+const root: any = typeof globalThis === 'undefined' ? {} : globalThis;
+
+/**
+ * Shared registry, calling the callback registered for each collected object.
+ *
+ * @hidden
+ */
+let registry: any;
+
+/**
+ * Weak reference to an object, with a notification of when the object is garbage-collected.
+ *
+ * @hidden
+ */
+export class WeakOwner<T extends object> {
+
+    private ref: any;
+
+    /**
+     * @param target
+     * Object to be held weakly.
+     *
+     * @param onCollect
+     * Notification of when the object has been garbage-collected.
+     */
+    constructor(target: T, onCollect: () => void) {
+        // istanbul ignore if: we are not auto-testing in old environments
+        if (!WeakOwner.supported) {
+            throw new TypeError(`Option "owner" requires WeakRef support.`);
+        }
+        registry = registry || new root.FinalizationRegistry((cb: () => void) => cb());
+        this.ref = new root.WeakRef(target);
+        registry.register(target, onCollect, this);
+    }
+
+    /**
+     * Returns the object, or `undefined` once it has been garbage-collected.
+     */
+    get(): T | undefined {
+        return this.ref.deref();
+    }
+
+    /**
+     * Cancels the notification.
+     */
+    release() {
+        registry.unregister(this);
+    }
+
+    /**
+     * Indicates whether WeakRef and FinalizationRegistry are supported.
+     */
+    static supported = typeof root.WeakRef === 'function' && typeof root.FinalizationRegistry === 'function';
+}
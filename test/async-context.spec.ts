@@ -0,0 +1,43 @@
+import {expect} from './';
+import {EmitSchedule, setContextManager, SubEvent} from '../src';
+import {AsyncResourceContextManager, VirtualClock} from '../extras/src';
+
+describe('AsyncResourceContextManager', () => {
+    const hooks = require('async_hooks');
+    let storage: any;
+    beforeEach(function () {
+        if (typeof hooks.AsyncLocalStorage !== 'function') {
+            this.skip(); // requires AsyncLocalStorage support
+        }
+        storage = new hooks.AsyncLocalStorage();
+        setContextManager(new AsyncResourceContextManager());
+    });
+    afterEach(() => {
+        setContextManager(null);
+    });
+    it('must restore the storage value for asynchronous schedules', () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>({clock});
+        const received: Array<[number, string]> = [];
+        a.subscribe(data => received.push([data, storage.getStore()]));
+        storage.run('first', () => a.emit(1, {schedule: EmitSchedule.async}));
+        storage.run('second', () => a.emit(2, {schedule: EmitSchedule.next}));
+        clock.flush(); // outside of the storage context
+        expect(received.sort()).to.eql([[1, 'first'], [2, 'second']]);
+    });
+    it('must restore the storage value for queued values', async () => {
+        const a = new SubEvent<number>();
+        const received: Array<[number, string]> = [];
+        let release = () => {
+        };
+        a.subscribe(data => {
+            received.push([data, storage.getStore()]);
+            return new Promise(resolve => release = resolve);
+        }, {queue: {}});
+        storage.run('first', () => a.emit(1));
+        storage.run('second', () => a.emit(2));
+        release();
+        await new Promise(resolve => setTimeout(resolve, 1));
+        expect(received).to.eql([[1, 'first'], [2, 'second']]);
+    });
+});
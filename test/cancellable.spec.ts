@@ -0,0 +1,131 @@
+import {chai, expect} from './';
+import {CancellableEvent, EmitSchedule, IEmitStatus} from '../src';
+
+const errInvalidOptions = `Invalid "options" parameter.`;
+
+describe('CancellableEvent', () => {
+    it('must throw on invalid options', () => {
+        const e = new CancellableEvent();
+        expect(() => {
+            e.emit(null, 0 as any);
+        }).to.throw(errInvalidOptions);
+    });
+    it('must deliver to all subscribers when not stopped', () => {
+        const e = new CancellableEvent<number>();
+        const received: number[] = [];
+        let status: IEmitStatus | undefined;
+        e.subscribe(data => received.push(data));
+        e.subscribe(data => received.push(data * 2));
+        e.emit(1, {onStatus: s => status = s});
+        expect(received).to.eql([1, 2]);
+        expect(status).to.eql({count: 2, stopped: false, defaultPrevented: false});
+    });
+    it('must stop propagation and prevent default', () => {
+        const e = new CancellableEvent<number>();
+        const received: number[] = [];
+        let status: IEmitStatus | undefined;
+        e.subscribe((data, ctrl) => {
+            received.push(data);
+            ctrl.preventDefault();
+            ctrl.stopPropagation();
+            expect(ctrl.stopped).to.be.true;
+            expect(ctrl.defaultPrevented).to.be.true;
+        });
+        e.subscribe(data => received.push(data * 2));
+        e.emit(1, {onStatus: s => status = s});
+        expect(received).to.eql([1]);
+        expect(status).to.eql({count: 1, stopped: true, defaultPrevented: true});
+    });
+    it('must report status without subscribers', () => {
+        const e = new CancellableEvent<number>();
+        let status: IEmitStatus | undefined;
+        e.emit(1, {onStatus: s => status = s});
+        expect(status).to.eql({count: 0, stopped: false, defaultPrevented: false});
+    });
+    it('must stop already scheduled async deliveries', done => {
+        const e = new CancellableEvent<number>();
+        const received: number[] = [];
+        e.subscribe((data, ctrl) => {
+            received.push(data);
+            ctrl.stopPropagation();
+        });
+        e.subscribe(data => received.push(data * 2));
+        e.emit(1, {
+            schedule: EmitSchedule.async,
+            onStatus: status => {
+                expect(received).to.eql([1]);
+                expect(status).to.eql({count: 1, stopped: true, defaultPrevented: false});
+                done();
+            }
+        });
+    });
+    it('must work with the next schedule', done => {
+        const e = new CancellableEvent<number>();
+        e.subscribe((data, ctrl) => ctrl.stopPropagation());
+        e.subscribe(() => {
+            throw new Error('Must not be called');
+        });
+        e.emit(1, {
+            schedule: EmitSchedule.next,
+            onStatus: status => {
+                expect(status.stopped).to.be.true;
+                done();
+            }
+        });
+    });
+    it('must pass the control into once subscribers', () => {
+        const e = new CancellableEvent<number>();
+        let stopped = false;
+        const context = {};
+        let thisArg: any;
+        const sub = e.once(function (this: any, data, ctrl) {
+            thisArg = this;
+            ctrl.stopPropagation();
+            stopped = ctrl.stopped;
+        }, {thisArg: context});
+        e.emit(1);
+        expect(stopped).to.be.true;
+        expect(thisArg).to.equal(context);
+        expect(sub.live).to.be.false;
+    });
+    describe('emitAsync', () => {
+        it('must pass the control into subscribers', async () => {
+            const e = new CancellableEvent<number>();
+            e.subscribe((data, ctrl) => {
+                ctrl.preventDefault();
+                return data * 2;
+            });
+            const onStatus = chai.spy();
+            const results = await e.emitAsync(1, {onStatus});
+            expect(results).to.eql([{name: undefined, status: 'fulfilled', value: 2}]);
+            expect(onStatus).to.have.been.called.with({count: 1, stopped: false, defaultPrevented: true});
+        });
+        it('must stop propagation in sequential mode', async () => {
+            const e = new CancellableEvent<number>();
+            const cb = chai.spy();
+            e.subscribe(async (data, ctrl) => {
+                await Promise.resolve();
+                ctrl.stopPropagation();
+            }, {name: 'first'});
+            e.subscribe(cb);
+            const results = await e.emitAsync(1, {sequential: true});
+            expect(results.map(r => r.name)).to.eql(['first']);
+            expect(cb).to.not.have.been.called;
+        });
+        it('must stop propagation synchronously in parallel mode', async () => {
+            const e = new CancellableEvent<number>();
+            const cb = chai.spy();
+            e.subscribe((data, ctrl) => ctrl.stopPropagation());
+            e.subscribe(cb);
+            let status: any;
+            const results = await e.emitAsync(1, {onStatus: s => status = s});
+            expect(results.length).to.equal(1);
+            expect(cb).to.not.have.been.called;
+            expect(status).to.eql({count: 1, stopped: true, defaultPrevented: false});
+        });
+        it('must throw on invalid options', () => {
+            const e = new CancellableEvent<number>();
+            expect(() => e.emitAsync(1, 0 as any)).to.throw(`Invalid "options" parameter.`);
+        });
+    });
+});
@@ -0,0 +1,211 @@
+import {chai, dummy, expect} from './';
+import {combineLatest, merge, race, ReplayEvent, SubEvent, SubEventCount, zip} from '../src';
+
+describe('merge', () => {
+    it('must re-emit values from all sources', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<string>();
+        const m: SubEventCount<number | string> = merge(a, b.toConsumer());
+        const received: Array<number | string> = [];
+        m.subscribe(data => received.push(data));
+        a.emit(1);
+        b.emit('two');
+        a.emit(3);
+        expect(received).to.eql([1, 'two', 3]);
+    });
+    it('must subscribe to sources only while subscribed', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const m = merge(a, b);
+        expect(a.count + b.count).to.equal(0);
+        const sub = m.subscribe(dummy);
+        expect(a.count + b.count).to.equal(2);
+        sub.cancel();
+        expect(a.count + b.count).to.equal(0);
+    });
+    it('must complete once all sources complete', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onComplete = chai.spy();
+        merge(a, b).subscribe(dummy, {onComplete});
+        a.complete();
+        expect(onComplete).to.not.have.been.called;
+        b.complete();
+        expect(onComplete).to.have.been.called.once;
+        expect(a.count + b.count).to.equal(0);
+    });
+    it('must fail once any source fails', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const onError = chai.spy();
+        merge(a, b).subscribe(dummy, {onError});
+        b.error(err);
+        expect(onError).to.have.been.called.with(err);
+        expect(a.count).to.equal(0);
+    });
+    it('must fail right away for a failed source', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onError = chai.spy();
+        a.error(new Error('Ops!'));
+        merge(a, b).subscribe(dummy, {onError});
+        expect(onError).to.have.been.called.once;
+        expect(b.count).to.equal(0);
+    });
+});
+
+describe('combineLatest', () => {
+    it('must emit the latest tuple once all sources have emitted', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<string>();
+        const c: SubEventCount<[number, string]> = combineLatest(a, b);
+        const received: Array<[number, string]> = [];
+        c.subscribe(data => received.push(data));
+        a.emit(1).emit(2);
+        expect(received).to.eql([]);
+        b.emit('a');
+        a.emit(3);
+        b.emit('b');
+        expect(received).to.eql([[2, 'a'], [3, 'a'], [3, 'b']]);
+    });
+    it('must start over for a fresh subscription', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const c = combineLatest(a, b);
+        const cb = chai.spy();
+        c.subscribe(dummy).cancel();
+        a.emit(1);
+        c.subscribe(cb);
+        b.emit(2);
+        expect(cb).to.not.have.been.called;
+    });
+    it('must complete once all sources complete', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onComplete = chai.spy();
+        combineLatest(a, b).subscribe(dummy, {onComplete});
+        a.emit(1);
+        b.emit(2);
+        a.complete();
+        expect(onComplete).to.not.have.been.called;
+        b.complete();
+        expect(onComplete).to.have.been.called.once;
+    });
+    it('must complete when a source completes without values', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onComplete = chai.spy();
+        combineLatest(a, b).subscribe(dummy, {onComplete});
+        a.emit(1);
+        b.complete();
+        expect(onComplete).to.have.been.called.once;
+        expect(a.count).to.equal(0);
+    });
+});
+
+describe('zip', () => {
+    it('must pair values in the order of arrival', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<string>();
+        const z: SubEventCount<[number, string]> = zip(a, b);
+        const received: Array<[number, string]> = [];
+        z.subscribe(data => received.push(data));
+        a.emit(1).emit(2).emit(3);
+        b.emit('a').emit('b');
+        expect(received).to.eql([[1, 'a'], [2, 'b']]);
+    });
+    it('must discard buffered values when unsubscribed', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const z = zip(a, b);
+        const received: any[] = [];
+        z.subscribe(dummy).cancel();
+        a.emit(1);
+        z.subscribe(data => received.push(data));
+        a.emit(2);
+        b.emit(3);
+        expect(received).to.eql([[2, 3]]);
+    });
+    it('must complete when a completed source runs out of values', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onComplete = chai.spy();
+        const received: any[] = [];
+        zip(a, b).subscribe(data => received.push(data), {onComplete});
+        a.emit(1).emit(2);
+        a.complete();
+        expect(onComplete).to.not.have.been.called;
+        b.emit(3);
+        expect(onComplete).to.not.have.been.called;
+        b.emit(4);
+        expect(onComplete).to.have.been.called.once;
+        expect(received).to.eql([[1, 3], [2, 4]]);
+        expect(b.count).to.equal(0);
+    });
+    it('must complete when a source completes without values', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onComplete = chai.spy();
+        zip(a, b).subscribe(dummy, {onComplete});
+        b.complete();
+        expect(onComplete).to.have.been.called.once;
+    });
+});
+
+describe('race', () => {
+    it('must mirror the first source to emit', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<string>();
+        const r: SubEventCount<number | string> = race(a, b);
+        const received: Array<number | string> = [];
+        r.subscribe(data => received.push(data));
+        b.emit('first');
+        expect(a.count).to.equal(0);
+        a.emit(1);
+        b.emit('second');
+        expect(received).to.eql(['first', 'second']);
+    });
+    it('must start a new race for a fresh subscription', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const r = race(a, b);
+        const received: number[] = [];
+        r.subscribe(dummy).cancel();
+        a.emit(1);
+        r.subscribe(data => received.push(data));
+        b.emit(2);
+        a.emit(3);
+        expect(received).to.eql([2]);
+    });
+    it('must not subscribe past a source that emits right away', () => {
+        const a = new SubEvent<number>();
+        const b = new ReplayEvent<number>();
+        const c = new SubEvent<number>();
+        const received: number[] = [];
+        b.emit(5);
+        race(a, b, c).subscribe(data => received.push(data));
+        expect(received).to.eql([5]);
+        expect(a.count + c.count).to.equal(0);
+        expect(b.count).to.equal(1);
+    });
+    it('must mirror completion and failure of the winner', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<number>();
+        const onComplete = chai.spy();
+        race(a, b).subscribe(dummy, {onComplete});
+        b.complete();
+        expect(onComplete).to.have.been.called.once;
+        expect(a.count).to.equal(0);
+        const c = new SubEvent<number>();
+        const d = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const onError = chai.spy();
+        race(c, d).subscribe(dummy, {onError});
+        c.emit(1);
+        d.error(err);
+        expect(onError).to.not.have.been.called;
+        c.error(err);
+        expect(onError).to.have.been.called.with(err);
+    });
+});
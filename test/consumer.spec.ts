@@ -1,5 +1,5 @@
 import {dummy, expect} from './';
-import {EventConsumer, SubEvent, Subscription} from '../src';
+import {EventConsumer, observable, SubEvent, Subscription} from '../src';
 
 describe('EventConsumer', () => {
     const e = new SubEvent<number>({maxSubs: 10});
@@ -10,10 +10,15 @@ describe('EventConsumer', () => {
     it('must forward methods correctly', () => {
         expect(c.count).to.equal(e.count);
         expect(c.maxSubs).to.equal(e.maxSubs);
+        expect(c.closed).to.equal(e.closed);
         expect(c.subscribe(dummy)).to.be.instanceOf(Subscription);
         expect(c.once(dummy)).to.be.instanceOf(Subscription);
         expect(c.toPromise()).to.be.instanceOf(Promise);
         expect(c.getStat()).to.eql({named: {}, unnamed: 3});
+        expect(c.getSubscriptions().length).to.equal(3);
+        expect(typeof c.toAsyncIterable().next).to.equal('function');
+        expect(typeof c.toObservable().subscribe).to.equal('function');
+        expect(typeof (c as any)[observable]().subscribe).to.equal('function');
     });
     it('must not have hidden methods', () => {
         expect((c as any).emit).to.be.undefined;
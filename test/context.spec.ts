@@ -0,0 +1,74 @@
+import {expect} from './';
+import {EmitSchedule, IContextManager, setContextManager, SubEvent} from '../src';
+
+describe('setContextManager', () => {
+    let current: string | undefined;
+    const manager: IContextManager<string | undefined> = {
+        capture: () => current,
+        run: (ctx, cb) => {
+            const prev = current;
+            current = ctx;
+            try {
+                return cb();
+            } finally {
+                current = prev;
+            }
+        }
+    };
+    afterEach(() => {
+        setContextManager(null);
+        current = undefined;
+    });
+    it('must return the previous manager', () => {
+        expect(setContextManager(manager)).to.be.null;
+        expect(setContextManager(null)).to.equal(manager);
+    });
+    it('must restore the context for asynchronous schedules', done => {
+        setContextManager(manager);
+        const a = new SubEvent<number>();
+        const received: Array<[number, string | undefined]> = [];
+        a.subscribe(data => {
+            received.push([data, current]);
+            if (received.length === 3) {
+                expect(received.sort()).to.eql([[1, 'first'], [2, 'second'], [3, undefined]]);
+                done();
+            }
+        });
+        current = 'first';
+        a.emit(1, {schedule: EmitSchedule.async});
+        current = 'second';
+        a.emit(2, {schedule: EmitSchedule.next});
+        current = undefined;
+        a.emit(3, {schedule: EmitSchedule.next});
+    });
+    it('must restore the context for queued values', async () => {
+        setContextManager(manager);
+        const a = new SubEvent<number>();
+        const received: Array<[number, string | undefined]> = [];
+        let release = () => {
+        };
+        a.subscribe(data => {
+            received.push([data, current]);
+            return new Promise(resolve => release = resolve);
+        }, {queue: {}});
+        current = 'first';
+        a.emit(1);
+        current = 'second';
+        a.emit(2);
+        current = undefined;
+        release();
+        await Promise.resolve();
+        expect(received).to.eql([[1, 'first'], [2, 'second']]);
+    });
+    it('must not be used for synchronous emits', () => {
+        let captured = false;
+        setContextManager({
+            capture: () => {
+                captured = true;
+            },
+            run: (ctx, cb) => cb()
+        });
+        new SubEvent().emit(1);
+        expect(captured).to.be.false;
+    });
+});
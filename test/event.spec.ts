@@ -1,5 +1,7 @@
-import {chai, dummy, expect} from './';
-import {EmitSchedule, EventConsumer, ISubContext, SubEvent} from '../src';
+import {chai, collect, dummy, expect} from './';
+import {EmitSchedule, EventConsumer, ISubContext, observable, QueueOverflow, SubEvent, systemClock} from '../src';
+import {WeakOwner} from '../src/utils';
+import {VirtualClock} from '../extras/src';
 
 const errInvalidOptions = `Invalid "options" parameter.`;
 
@@ -136,6 +138,26 @@ describe('subscribe', () => {
         expect(context).to.eq(a);
         expect(sub.name).to.eq('my-sub');
     });
+    it('must deliver by priority', () => {
+        const a = new SubEvent<number>();
+        const order: string[] = [];
+        a.subscribe(() => order.push('first'));
+        a.subscribe(() => order.push('low'), {priority: -1});
+        a.subscribe(() => order.push('high'), {priority: 10});
+        a.subscribe(() => order.push('second'));
+        a.subscribe(() => order.push('medium'), {priority: 5});
+        a.subscribe(() => order.push('high-2'), {priority: 10});
+        a.emit(0);
+        expect(order).to.eql(['high', 'high-2', 'medium', 'first', 'second', 'low']);
+    });
+    it('must apply maxSubs by priority', () => {
+        const a = new SubEvent<number>({maxSubs: 1});
+        const order: string[] = [];
+        a.subscribe(() => order.push('normal'));
+        a.subscribe(() => order.push('high'), {priority: 1});
+        a.emit(0);
+        expect(order).to.eql(['high']);
+    });
     it('must call onSubscribe when specified', () => {
         let context: ISubContext | undefined;
         const onSubscribe = (ctx: ISubContext) => {
@@ -213,6 +235,37 @@ describe('getStat', () => {
             unnamed: 2
         });
     });
+    it('must report priorities when used', () => {
+        const a = new SubEvent();
+        a.subscribe(dummy);
+        a.subscribe(dummy, {priority: 1});
+        a.subscribe(dummy, {name: 'first', priority: 1});
+        expect(a.getStat()).to.eql({
+            named: {
+                first: 1
+            },
+            unnamed: 2,
+            priorities: {
+                0: 1,
+                1: 2
+            }
+        });
+    });
+    it('must report queue depths when used', () => {
+        const a = new SubEvent<number>();
+        const never = () => new Promise(dummy);
+        a.subscribe(dummy);
+        a.subscribe(never, {name: 'first', queue: {}});
+        a.subscribe(never, {queue: {}});
+        a.emit(1).emit(2).emit(3);
+        expect(a.getStat()).to.eql({
+            named: {
+                first: 1
+            },
+            unnamed: 2,
+            queues: [{name: 'first', depth: 2}, {name: undefined, depth: 2}]
+        });
+    });
     it('must limit occurrences according to minUse option', () => {
         const a = new SubEvent();
         a.subscribe(dummy, {name: 'first'});
@@ -419,6 +472,111 @@ describe('toPromise', () => {
         }
         expect(err && err.message).to.equal('Event "second" cancelled.');
     });
+    it('must reject with the event error', async () => {
+        const a = new SubEvent();
+        const err = new Error('Ops!');
+        setTimeout(() => {
+            a.error(err);
+        });
+        let e;
+        try {
+            await a.toPromise({timeout: 1000});
+        } catch (ex) {
+            e = ex;
+        }
+        expect(e).to.equal(err);
+    });
+    it('must reject when completed', async () => {
+        const a = new SubEvent();
+        a.complete();
+        let err;
+        try {
+            await a.toPromise({timeout: 1000});
+        } catch (e) {
+            err = e;
+        }
+        expect(err && err.message).to.equal('Event completed.');
+        try {
+            await a.toPromise({name: 'third'});
+        } catch (e) {
+            err = e;
+        }
+        expect(err && err.message).to.equal('Event "third" completed.');
+    });
+});
+
+describe('complete', () => {
+    it('must notify and cancel all subscribers', () => {
+        const a = new SubEvent<number>({maxSubs: 1});
+        const onComplete1 = chai.spy(), onComplete2 = chai.spy(), onCancel = chai.spy();
+        const sub1 = a.subscribe(dummy, {onComplete: onComplete1, onCancel});
+        const sub2 = a.subscribe(dummy, {onComplete: onComplete2});
+        expect(a.closed).to.be.false;
+        expect(a.complete()).to.be.true;
+        expect(onComplete1).to.have.been.called.once;
+        expect(onComplete2).to.have.been.called.once;
+        expect(onCancel).to.have.been.called.once;
+        expect(sub1.live).to.be.false;
+        expect(sub2.live).to.be.false;
+        expect(a.count).to.eq(0);
+        expect(a.closed).to.be.true;
+    });
+    it('must do nothing when already closed', () => {
+        const a = new SubEvent();
+        a.error(new Error('Ops!'));
+        expect(a.complete()).to.be.false;
+        expect(a.error(new Error('Again'))).to.be.false;
+    });
+    it('must skip subscribers cancelled during notification', () => {
+        const a = new SubEvent();
+        const onComplete = chai.spy();
+        let sub2: any;
+        a.subscribe(dummy, {onComplete: () => sub2.cancel()});
+        sub2 = a.subscribe(dummy, {onComplete});
+        a.complete();
+        expect(onComplete).not.to.have.been.called;
+    });
+    it('must notify new subscribers immediately', () => {
+        const a = new SubEvent();
+        const onSubscribe = chai.spy();
+        const b = new SubEvent({onSubscribe});
+        const onComplete = chai.spy(), cb = chai.spy();
+        a.complete();
+        b.complete();
+        const sub = b.subscribe(cb, {name: 'late', onComplete});
+        a.subscribe(cb);
+        expect(onComplete).to.have.been.called.once;
+        expect(onSubscribe).not.to.have.been.called;
+        expect(sub.live).to.be.false;
+        expect(sub.name).to.eq('late');
+        expect(sub.cancel()).to.be.false;
+        b.emit(1);
+        expect(cb).not.to.have.been.called;
+    });
+});
+
+describe('error', () => {
+    it('must notify and cancel all subscribers', () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const onError = chai.spy();
+        const sub = a.subscribe(dummy, {onError});
+        a.subscribe(dummy);
+        expect(a.error(err)).to.be.true;
+        expect(onError).to.have.been.called.with(err);
+        expect(sub.live).to.be.false;
+        expect(a.count).to.eq(0);
+        expect(a.closed).to.be.true;
+    });
+    it('must notify new subscribers immediately', () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const onError = chai.spy(), onComplete = chai.spy();
+        a.error(err);
+        a.subscribe(dummy, {onError, onComplete});
+        expect(onError).to.have.been.called.with(err);
+        expect(onComplete).not.to.have.been.called;
+    });
 });
 
 describe('once', () => {
@@ -457,3 +615,870 @@ describe('toConsumer', () => {
         expect((c as any).cancelAll).to.be.undefined;
     });
 });
+
+describe('toAsyncIterable', () => {
+    it('must throw on invalid options', () => {
+        const a = new SubEvent();
+        expect(() => {
+            a.toAsyncIterable(0 as any);
+        }).to.throw(errInvalidOptions);
+    });
+    it('must iterate through all values', async () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        setTimeout(() => {
+            a.emit(1).emit(2).emit(3);
+            a.cancelAll();
+        });
+        for await (const value of a) {
+            received.push(value);
+        }
+        expect(received).to.eql([1, 2, 3]);
+        expect(a.count).to.eq(0);
+    });
+    it('must end pending iteration on cancelAll', async () => {
+        const a = new SubEvent<number>();
+        const i = a.toAsyncIterable();
+        setTimeout(() => {
+            a.cancelAll();
+        });
+        expect(await i.next()).to.eql({value: undefined, done: true});
+    });
+    it('must cancel the subscription on break', async () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        setTimeout(() => {
+            a.emit(1).emit(2);
+        });
+        for await (const value of a.toConsumer()) {
+            received.push(value);
+            break;
+        }
+        expect(received).to.eql([1]);
+        expect(a.count).to.eq(0);
+    });
+    it('must drop the oldest values by default', async () => {
+        const a = new SubEvent<number>();
+        const i = a.toAsyncIterable({maxSize: 2});
+        a.emit(1).emit(2).emit(3);
+        a.cancelAll();
+        const received: number[] = [];
+        for await (const value of i) {
+            received.push(value);
+        }
+        expect(received).to.eql([2, 3]);
+    });
+    it('must drop the newest values', async () => {
+        const a = new SubEvent<number>();
+        const i = a.toAsyncIterable({maxSize: 2, overflow: QueueOverflow.dropNewest});
+        a.emit(1).emit(2).emit(3);
+        a.cancelAll();
+        const received: number[] = [];
+        for await (const value of i) {
+            received.push(value);
+        }
+        expect(received).to.eql([1, 2]);
+    });
+    it('must throw on overflow', async () => {
+        const a = new SubEvent<number>();
+        const i = a.toAsyncIterable({maxSize: 1, overflow: QueueOverflow.throw});
+        a.emit(1).emit(2);
+        expect(a.count).to.eq(0);
+        let err;
+        try {
+            await i.next();
+        } catch (e) {
+            err = e;
+        }
+        expect(err && err.message).to.equal('Event queue overflow.');
+        expect(await i.next()).to.eql({value: undefined, done: true});
+    });
+    it('must throw on overflow, with name', async () => {
+        const a = new SubEvent<number>();
+        const i = a.toAsyncIterable({name: 'first', maxSize: 1, overflow: QueueOverflow.throw});
+        a.emit(1).emit(2);
+        let err;
+        try {
+            await i.next();
+        } catch (e) {
+            err = e;
+        }
+        expect(err && err.message).to.equal('Event "first" queue overflow.');
+    });
+    it('must end when the event completes', async () => {
+        const a = new SubEvent<number>();
+        const i = a.toAsyncIterable();
+        a.emit(1);
+        a.complete();
+        expect(await i.next()).to.eql({value: 1, done: false});
+        expect(await i.next()).to.eql({value: undefined, done: true});
+    });
+    it('must fail when the event fails', async () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const i = a.toAsyncIterable();
+        a.emit(1);
+        a.error(err);
+        expect(await i.next()).to.eql({value: 1, done: false});
+        let e;
+        try {
+            await i.next();
+        } catch (ex) {
+            e = ex;
+        }
+        expect(e).to.equal(err);
+        expect(await i.next()).to.eql({value: undefined, done: true});
+    });
+    it('must fail pending requests when the event fails', async () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const i = a.toAsyncIterable();
+        const p1 = i.next(), p2 = i.next();
+        a.error(err);
+        let e;
+        try {
+            await p1;
+        } catch (ex) {
+            e = ex;
+        }
+        expect(e).to.equal(err);
+        expect(await p2).to.eql({value: undefined, done: true});
+    });
+});
+
+describe('emitAsync', () => {
+    const delay = (ms: number, value?: any) => new Promise(resolve => setTimeout(() => resolve(value), ms));
+    it('must throw on invalid options', () => {
+        const a = new SubEvent();
+        expect(() => {
+            a.emitAsync(null, 0 as any);
+        }).to.throw(errInvalidOptions);
+    });
+    it('must collect results from all subscribers', async () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        a.subscribe(data => data * 2, {name: 'sync'});
+        a.subscribe(data => delay(5, data * 3), {name: 'async'});
+        a.subscribe(() => {
+            throw err;
+        });
+        a.subscribe(() => Promise.reject(err), {name: 'rejected'});
+        expect(await a.emitAsync(1)).to.eql([
+            {name: 'sync', status: 'fulfilled', value: 2},
+            {name: 'async', status: 'fulfilled', value: 3},
+            {name: undefined, status: 'rejected', reason: err},
+            {name: 'rejected', status: 'rejected', reason: err}
+        ]);
+    });
+    it('must deliver sequentially', async () => {
+        const a = new SubEvent<string>();
+        const order: string[] = [];
+        a.subscribe(async data => {
+            await delay(5);
+            order.push(`first: ${data}`);
+        });
+        a.subscribe(data => {
+            order.push(`second: ${data}`);
+        });
+        const results = await a.emitAsync('hi', {sequential: true});
+        expect(order).to.eql(['first: hi', 'second: hi']);
+        expect(results.length).to.eq(2);
+    });
+    it('must skip subscriptions cancelled during delivery', async () => {
+        const a = new SubEvent<number>();
+        let sub2: any;
+        a.subscribe(() => {
+            sub2.cancel();
+        });
+        sub2 = a.subscribe(() => 2);
+        expect((await a.emitAsync(1)).length).to.eq(1);
+        sub2 = a.subscribe(() => 2);
+        expect((await a.emitAsync(1, {sequential: true})).length).to.eq(1);
+    });
+    it('must honour maxSubs', async () => {
+        const a = new SubEvent<number>({maxSubs: 1});
+        a.subscribe(() => 1);
+        a.subscribe(() => 2);
+        expect(await a.emitAsync(0)).to.eql([{name: undefined, status: 'fulfilled', value: 1}]);
+    });
+    it('must resolve when before timeout', async () => {
+        const a = new SubEvent<number>();
+        a.subscribe(() => 1);
+        expect((await a.emitAsync(0, {timeout: 10})).length).to.eq(1);
+    });
+    it('must reject on timeout', async () => {
+        const a = new SubEvent<number>();
+        a.subscribe(() => delay(20));
+        let err;
+        try {
+            await a.emitAsync(0, {timeout: 0});
+        } catch (e) {
+            err = e;
+        }
+        expect(err && err.message).to.equal('Event timed out.');
+    });
+});
+
+describe('toObservable', () => {
+    it('must deliver data to the observer', () => {
+        const a = new SubEvent<number>();
+        const values: number[] = [];
+        const sub = a.toObservable().subscribe({next: value => values.push(value)});
+        a.emit(1).emit(2);
+        expect(values).to.eql([1, 2]);
+        expect(sub.closed).to.be.false;
+    });
+    it('must support a function observer', () => {
+        const a = new SubEvent<number>();
+        const cb = chai.spy();
+        a.toObservable().subscribe(cb);
+        a.emit(1);
+        expect(cb).to.have.been.called.with(1);
+    });
+    it('must support no observer', () => {
+        const a = new SubEvent<number>();
+        a.toObservable().subscribe();
+        a.emit(1);
+        expect(a.count).to.eq(1);
+        a.cancelAll();
+        expect(a.count).to.eq(0);
+    });
+    it('must cancel the subscription on unsubscribe', () => {
+        const a = new SubEvent<number>();
+        const complete = chai.spy();
+        const sub = a.toObservable().subscribe({complete});
+        expect(a.count).to.eq(1);
+        sub.unsubscribe();
+        expect(a.count).to.eq(0);
+        expect(sub.closed).to.be.true;
+        expect(complete).not.to.have.been.called;
+    });
+    it('must complete when the subscription is cancelled', () => {
+        const a = new SubEvent<number>();
+        const complete = chai.spy();
+        const sub = a.toObservable().subscribe({complete});
+        a.cancelAll();
+        expect(complete).to.have.been.called.once;
+        expect(sub.closed).to.be.true;
+    });
+    it('must pass on completion', () => {
+        const a = new SubEvent<number>();
+        const complete = chai.spy();
+        const sub = a.toObservable().subscribe({complete});
+        a.complete();
+        expect(complete).to.have.been.called.once;
+        expect(sub.closed).to.be.true;
+        a.toObservable().subscribe();
+    });
+    it('must pass on the error', () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const error = chai.spy(), complete = chai.spy();
+        const sub = a.toObservable().subscribe({error, complete});
+        a.error(err);
+        expect(error).to.have.been.called.with(err);
+        expect(complete).not.to.have.been.called;
+        expect(sub.closed).to.be.true;
+        a.toObservable().subscribe();
+    });
+    it('must provide interop property', () => {
+        const a = new SubEvent<number>();
+        const obs = a.toObservable();
+        expect((obs as any)[observable]()).to.equal(obs);
+        expect(typeof (a as any)[observable]().subscribe).to.equal('function');
+    });
+});
+
+describe('queue', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    it('must deliver serially to async subscribers', async () => {
+        const a = new SubEvent<number>();
+        const log: string[] = [];
+        let finish: () => void;
+        const finished = new Promise(resolve => finish = resolve);
+        a.subscribe(async data => {
+            log.push(`start ${data}`);
+            await delay(5);
+            log.push(`end ${data}`);
+            if (data === 3) {
+                finish();
+            }
+        }, {queue: {}});
+        a.emit(1).emit(2).emit(3);
+        await finished;
+        expect(log).to.eql(['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+    });
+    it('must deliver sync subscribers immediately', () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        a.subscribe(data => {
+            received.push(data);
+        }, {queue: {maxSize: 1}});
+        a.emit(1).emit(2);
+        expect(received).to.eql([1, 2]);
+    });
+    it('must drop the oldest values by default', async () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        a.subscribe(data => {
+            received.push(data);
+            return delay(1);
+        }, {queue: {maxSize: 1}});
+        a.emit(1).emit(2).emit(3);
+        await delay(20);
+        expect(received).to.eql([1, 3]);
+    });
+    it('must drop the newest values', async () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        a.subscribe(data => {
+            received.push(data);
+            return delay(1);
+        }, {queue: {maxSize: 1, overflow: QueueOverflow.dropNewest}});
+        a.emit(1).emit(2).emit(3);
+        await delay(20);
+        expect(received).to.eql([1, 2]);
+    });
+    it('must report overflow', () => {
+        const a = new SubEvent<number>();
+        a.subscribe(() => delay(1), {queue: {maxSize: 1, overflow: QueueOverflow.throw}});
+        a.subscribe(() => delay(1), {name: 'second', queue: {maxSize: 1, overflow: QueueOverflow.throw}});
+        const onError = chai.spy();
+        a.emit(1).emit(2).emit(3, {onError});
+        expect(onError).to.have.been.called.twice;
+        expect(onError).to.have.been.called.with('second');
+        expect(() => {
+            a.emit(4);
+        }).to.throw('Event queue overflow.');
+    });
+    it('must pass errors into the handler', async () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const received: number[] = [];
+        a.subscribe(data => {
+            received.push(data);
+            if (data === 1) {
+                throw err;
+            }
+            return data === 2 ? Promise.reject(err) : undefined;
+        }, {name: 'first', queue: {}});
+        const onError = chai.spy();
+        a.emit(1, {onError}).emit(2, {onError}).emit(3, {onError});
+        await delay(5);
+        expect(received).to.eql([1, 2, 3]);
+        expect(onError).to.have.been.called.twice;
+        expect(onError).to.have.been.called.with(err, 'first');
+    });
+    it('must throw errors without a handler', () => {
+        const a = new SubEvent<number>();
+        a.subscribe(() => {
+            throw new Error('Ops!');
+        }, {queue: {}});
+        expect(() => {
+            a.emit(1);
+        }).to.throw('Ops!');
+    });
+    it('must leave rejections unhandled without a handler', async () => {
+        const a = new SubEvent<number>();
+        const err = new Error('Ops!');
+        const handler = chai.spy();
+        process.once('unhandledRejection', handler);
+        a.subscribe(() => Promise.reject(err), {queue: {}});
+        a.emit(1);
+        await delay(5);
+        expect(handler).to.have.been.called.with(err);
+    });
+    it('must discard the queue when cancelled', async () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        const sub = a.subscribe(data => {
+            received.push(data);
+            return delay(1);
+        }, {queue: {}});
+        a.emit(1).emit(2).emit(3);
+        sub.cancel();
+        await delay(10);
+        expect(received).to.eql([1]);
+    });
+    describe('emitAsync', () => {
+        it('must deliver serially via the queue', async () => {
+            const a = new SubEvent<number>();
+            const log: string[] = [];
+            a.subscribe(async data => {
+                log.push(`start ${data}`);
+                await delay(5);
+                log.push(`end ${data}`);
+                return data * 2;
+            }, {name: 'first', queue: {}});
+            const [r1, r2] = await Promise.all([a.emitAsync(1), a.emitAsync(2)]);
+            expect(log).to.eql(['start 1', 'end 1', 'start 2', 'end 2']);
+            expect(r1).to.eql([{name: 'first', status: 'fulfilled', value: 2}]);
+            expect(r2).to.eql([{name: 'first', status: 'fulfilled', value: 4}]);
+        });
+        it('must report errors and overflow as rejected results', async () => {
+            const a = new SubEvent<number>();
+            const err = new Error('Ops!');
+            a.subscribe(data => {
+                if (data === 1) {
+                    throw err;
+                }
+                return delay(5).then(() => Promise.reject(err));
+            }, {queue: {maxSize: 1, overflow: QueueOverflow.throw}});
+            expect(await a.emitAsync(1)).to.eql([{name: undefined, status: 'rejected', reason: err}]);
+            const results = await Promise.all([a.emitAsync(2), a.emitAsync(3), a.emitAsync(4)]);
+            expect(results.map(r => r[0].reason.message)).to.eql(['Ops!', 'Ops!', 'Event queue overflow.']);
+        });
+        it('must settle when the next queued value throws', async () => {
+            const a = new SubEvent<number>();
+            const err = new Error('Ops!');
+            const handler = chai.spy();
+            process.once('unhandledRejection', handler);
+            a.subscribe(data => {
+                if (data === 2) {
+                    throw err;
+                }
+                return delay(5).then(() => data);
+            }, {queue: {}});
+            const p = a.emitAsync(1);
+            a.emit(2);
+            expect(await p).to.eql([{name: undefined, status: 'fulfilled', value: 1}]);
+            await delay(5);
+            expect(handler).to.have.been.called.with(err);
+        });
+        it('must exclude values dropped from the queue', async () => {
+            const a = new SubEvent<number>();
+            const b = new SubEvent<number>();
+            a.subscribe(() => delay(5), {queue: {maxSize: 1, overflow: QueueOverflow.dropNewest}});
+            b.subscribe(() => delay(5), {queue: {maxSize: 1}});
+            const ra = await Promise.all([a.emitAsync(1), a.emitAsync(2), a.emitAsync(3)]);
+            const rb = await Promise.all([b.emitAsync(1), b.emitAsync(2), b.emitAsync(3)]);
+            expect(ra.map(r => r.length)).to.eql([1, 1, 0]);
+            expect(rb.map(r => r.length)).to.eql([1, 0, 1]);
+        });
+        it('must exclude values discarded on cancel', async () => {
+            const a = new SubEvent<number>();
+            const sub = a.subscribe(() => delay(5), {queue: {}});
+            const p = Promise.all([a.emitAsync(1), a.emitAsync(2), a.emitAsync(3)]);
+            sub.cancel();
+            expect((await p).map(r => r.length)).to.eql([1, 0, 0]);
+        });
+    });
+});
+
+describe('owner', () => {
+    beforeEach(function () {
+        if (!WeakOwner.supported) {
+            this.skip(); // requires WeakRef and FinalizationRegistry
+        }
+    });
+    it('must use the owner as the calling context', () => {
+        const a = new SubEvent<number>();
+        const owner = {values: [] as number[]};
+        a.subscribe(function (this: typeof owner, data: number) {
+            this.values.push(data);
+        }, {owner});
+        a.once(function (this: typeof owner, data: number) {
+            this.values.push(data * 10);
+        }, {owner});
+        a.emit(1);
+        expect(owner.values).to.eql([1, 10]);
+    });
+    it('must keep option thisArg', () => {
+        const a = new SubEvent<number>();
+        const owner = {}, ctx = {values: [] as number[]};
+        a.subscribe(function (this: typeof ctx, data: number) {
+            this.values.push(data);
+        }, {owner, thisArg: ctx});
+        a.emit(1);
+        expect(ctx.values).to.eql([1]);
+    });
+    it('must cancel the subscription once the owner is collected', async function () {
+        if (typeof (global as any).gc !== 'function') {
+            this.skip(); // requires node --expose-gc
+        }
+        const onCancel = chai.spy();
+        const a = new SubEvent<number>({onCancel});
+        const received: number[] = [];
+        let sub: any;
+        (() => {
+            const owner = {received};
+            sub = a.subscribe(function (this: typeof owner, data: number) {
+                this.received.push(data);
+            }, {owner});
+            a.emit(1);
+        })();
+        const kept = {};
+        const sub2 = a.subscribe(dummy, {owner: kept});
+        await collect(() => !sub.live);
+        expect(received).to.eql([1]);
+        expect(sub.live).to.be.false;
+        expect(sub2.live).to.be.true;
+        expect(a.count).to.eq(1);
+        expect(onCancel).to.have.been.called.once;
+        sub2.cancel();
+        expect(kept).to.be.an('object');
+    });
+});
+
+describe('leakThreshold', () => {
+    it('must report the total count crossing the threshold', () => {
+        const onLeak = chai.spy();
+        const a = new SubEvent({leakThreshold: 2, onLeak});
+        a.subscribe(dummy);
+        a.subscribe(dummy, {name: 'first'});
+        expect(onLeak).not.to.have.been.called;
+        a.subscribe(dummy, {name: 'first'});
+        expect(onLeak).to.have.been.called.with({event: a, name: undefined, count: 3, threshold: 2, named: {first: 2}, stacks: undefined});
+        a.subscribe(dummy);
+        expect(onLeak).to.have.been.called.once;
+    });
+    it('must report the same-name count crossing the threshold', () => {
+        const infos: any[] = [];
+        const a = new SubEvent({leakThreshold: 1, onLeak: info => infos.push(info)});
+        a.subscribe(dummy, {name: 'first'}).cancel();
+        a.subscribe(dummy, {name: 'first'});
+        a.subscribe(dummy, {name: 'second'}); // total
+        a.subscribe(dummy, {name: 'first'});
+        a.subscribe(dummy);
+        expect(infos.map(i => [i.name, i.count])).to.eql([[undefined, 2], ['first', 2]]);
+        expect(infos[1].named).to.eql({first: 2});
+    });
+    it('must include captured stacks', () => {
+        let info: any;
+        const a = new SubEvent({leakThreshold: 1, captureStack: true, onLeak: i => info = i});
+        a.subscribe(dummy);
+        a.subscribe(dummy);
+        expect(info.stacks.length).to.eq(2);
+        expect(info.stacks[0]).to.contain('event.spec.ts');
+    });
+    it('must emit a process warning by default', () => {
+        const emitWarning = process.emitWarning;
+        const warnings: string[] = [];
+        process.emitWarning = (msg: any) => warnings.push(msg);
+        const a = new SubEvent({leakThreshold: 1});
+        a.subscribe(dummy, {name: 'first'}).cancel();
+        a.subscribe(dummy, {name: 'first'});
+        a.subscribe(dummy);
+        a.subscribe(dummy, {name: 'first'});
+        process.emitWarning = emitWarning;
+        expect(warnings).to.eql([
+            'Possible subscription leak detected: 2 subscriptions exceed threshold 1.',
+            'Possible subscription leak detected: 2 subscriptions named "first" exceed threshold 1.'
+        ]);
+    });
+});
+
+describe('getSubscriptions', () => {
+    it('must describe live subscriptions', () => {
+        const a = new SubEvent<number>({maxSubs: 2});
+        a.subscribe(dummy, {name: 'first'});
+        a.subscribe(dummy).cancel();
+        a.subscribe(dummy);
+        a.subscribe(dummy, {name: 'last', priority: 1});
+        const subs = a.getSubscriptions();
+        expect(subs).to.eql([
+            {name: 'last', priority: 1, active: true, stack: undefined},
+            {name: 'first', priority: 0, active: true, stack: undefined},
+            {name: undefined, priority: 0, active: false, stack: undefined}
+        ]);
+        expect(Object.isFrozen(subs[0])).to.be.true;
+    });
+    it('must include details in debug mode', async () => {
+        const a = new SubEvent<number>({debug: true});
+        const start = Date.now();
+        const sub = a.subscribe(dummy, {name: 'first'});
+        a.subscribe(dummy, {name: 'second'});
+        a.emit(1);
+        await a.emitAsync(2);
+        sub.cancel();
+        a.emit(3);
+        const [d] = a.getSubscriptions();
+        expect(d.name).to.eq('second');
+        expect(d.received).to.eq(3);
+        expect(d.created).to.be.within(start, Date.now());
+        expect(d.age).to.be.at.least(0);
+        expect(d.stack).to.contain('event.spec.ts');
+        expect(Object.isFrozen(d)).to.be.true;
+    });
+});
+
+describe('metrics', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    it('must report emit and subscriber timings', async () => {
+        const log: any[] = [];
+        const a: SubEvent<number> = new SubEvent<number>({
+            metrics: {
+                onEmitStart: e => log.push(['start', e === a]),
+                onEmitEnd: (e, count, duration) => log.push(['end', count, duration >= 0]),
+                onSubscriber: (e, duration, name) => log.push(['sub', name, duration >= 0]),
+                onSettled: (e, duration, status, name) => log.push(['settled', name, status, duration > 0])
+            }
+        });
+        a.subscribe(dummy, {name: 'sync'});
+        a.subscribe(() => delay(5), {name: 'async'});
+        a.subscribe(() => delay(5).then(() => Promise.reject(new Error('Ops!'))), {queue: {}});
+        a.emit(1, {onError: dummy});
+        expect(log).to.eql([
+            ['start', true],
+            ['sub', 'sync', true],
+            ['sub', 'async', true],
+            ['sub', undefined, true],
+            ['end', 3, true]
+        ]);
+        await delay(20);
+        expect(log.slice(5)).to.eql([
+            ['settled', 'async', 'fulfilled', true],
+            ['settled', undefined, 'rejected', true]
+        ]);
+    });
+    it('must report emitAsync timings', async () => {
+        const log: any[] = [];
+        const a: SubEvent<number> = new SubEvent<number>({
+            metrics: {
+                onEmitStart: e => log.push(['start', e === a]),
+                onEmitEnd: (e, count, duration) => log.push(['end', count, duration > 0]),
+                onSubscriber: (e, duration, name) => log.push(['sub', name]),
+                onSettled: (e, duration, status, name) => log.push(['settled', name, status])
+            }
+        });
+        a.subscribe(dummy, {name: 'sync'});
+        a.subscribe(() => delay(5), {name: 'async'});
+        a.subscribe(() => delay(5).then(() => Promise.reject(new Error('Ops!'))), {name: 'queued', queue: {}});
+        const results = await a.emitAsync(1);
+        expect(results.length).to.eq(3);
+        expect(log).to.eql([
+            ['start', true],
+            ['sub', 'sync'],
+            ['sub', 'async'],
+            ['sub', 'queued'],
+            ['settled', 'async', 'fulfilled'],
+            ['settled', 'queued', 'rejected'],
+            ['end', 3, true]
+        ]);
+    });
+    it('must report the end without recipients', done => {
+        const a = new SubEvent<number>({
+            metrics: {
+                onEmitEnd: (e, count) => {
+                    expect(count).to.eq(0);
+                    done();
+                }
+            }
+        });
+        a.emit(1, {schedule: EmitSchedule.next});
+    });
+    it('must report errors from the onError path', async () => {
+        const errors: any[] = [];
+        const a = new SubEvent<number>({metrics: {onError: (e, err, name) => errors.push([err.message, name])}});
+        const onError = chai.spy();
+        a.subscribe(() => {
+            throw new Error('sync');
+        }, {name: 'first'});
+        a.subscribe(() => Promise.reject(new Error('async')));
+        a.emit(1, {onError});
+        await delay(1);
+        expect(errors).to.eql([['sync', 'first'], ['async', undefined]]);
+        expect(onError).to.have.been.called.twice;
+        expect(() => a.emit(2)).to.throw('sync');
+    });
+    it('must report sync errors, and keep rejections unhandled', async () => {
+        const log: any[] = [];
+        const a = new SubEvent<number>({
+            metrics: {
+                onSubscriber: (e, duration, name) => log.push(name),
+                onSettled: (e, duration, status) => log.push(status)
+            }
+        });
+        const err = new Error('Ops!');
+        const handler = chai.spy();
+        process.once('unhandledRejection', handler);
+        const sub = a.subscribe(() => {
+            throw err;
+        }, {name: 'first'});
+        expect(() => a.emit(1)).to.throw('Ops!');
+        sub.cancel();
+        a.subscribe(() => Promise.reject(err));
+        a.emit(2);
+        await delay(5);
+        expect(log).to.eql(['first', undefined, 'rejected']);
+        expect(handler).to.have.been.called.with(err);
+    });
+});
+
+describe('clock', () => {
+    it('must schedule async and next emits as zero-delay timers', () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>({clock});
+        const received: number[] = [];
+        a.subscribe(data => received.push(data));
+        a.emit(1, {schedule: EmitSchedule.next});
+        a.emit(2, {schedule: EmitSchedule.async});
+        expect(clock.pending).to.eq(2);
+        expect(received).to.be.empty;
+        clock.flush();
+        expect(received).to.eql([1, 2]);
+    });
+    it('must use the clock for toPromise timeouts', async () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>({clock});
+        const p = a.toPromise({timeout: 10});
+        clock.advanceBy(9);
+        expect(a.count).to.eq(1);
+        clock.advanceBy(1);
+        expect(a.count).to.eq(0);
+        const err = await p.catch(e => e);
+        expect(err.message).to.equal('Event timed out.');
+        const p2 = a.toPromise({timeout: 10});
+        a.emit(1);
+        expect(clock.pending).to.eq(0);
+        expect(await p2).to.eq(1);
+    });
+    it('must use the clock for emitAsync timeouts', async () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>({clock});
+        a.subscribe(() => new Promise(dummy));
+        const p = a.emitAsync(1, {timeout: 10});
+        clock.advanceBy(10);
+        const err = await p.catch(e => e);
+        expect(err.message).to.equal('Event timed out.');
+    });
+    it('must use the clock for the subscription age', () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>({clock, debug: true});
+        a.subscribe(dummy);
+        clock.advanceBy(25);
+        expect(a.getSubscriptions()[0]).to.include({created: 0, age: 25});
+    });
+    it('must run system intervals', done => {
+        let count = 0;
+        const timer = systemClock.setInterval(() => {
+            if (++count === 2) {
+                systemClock.clearInterval(timer);
+                done();
+            }
+        }, 1);
+    });
+});
+
+describe('signal', () => {
+    beforeEach(function () {
+        if (typeof AbortController === 'undefined') {
+            this.skip(); // requires AbortController support
+        }
+    });
+    it('must cancel the subscription on abort', () => {
+        const a = new SubEvent<number>();
+        const ac = new AbortController();
+        const onCancel = chai.spy();
+        const sub = a.subscribe(dummy, {signal: ac.signal, onCancel});
+        ac.abort();
+        expect(sub.live).to.be.false;
+        expect(a.count).to.equal(0);
+        expect(onCancel).to.have.been.called.once;
+    });
+    it('must stop listening once cancelled', () => {
+        const a = new SubEvent<number>();
+        const ac = new AbortController();
+        const onCancel = chai.spy();
+        a.subscribe(dummy, {signal: ac.signal, onCancel}).cancel();
+        a.subscribe(dummy, {signal: ac.signal});
+        ac.abort();
+        expect(onCancel).to.have.been.called.once;
+        expect(a.count).to.equal(0);
+    });
+    it('must not subscribe when already aborted', () => {
+        const onSubscribe = chai.spy();
+        const a = new SubEvent<number>({onSubscribe});
+        const ac = new AbortController();
+        ac.abort();
+        const sub = a.subscribe(dummy, {signal: ac.signal});
+        expect(sub.live).to.be.false;
+        expect(onSubscribe).to.not.have.been.called;
+    });
+    it('must cancel once-off subscriptions', () => {
+        const a = new SubEvent<number>();
+        const ac = new AbortController();
+        const cb = chai.spy();
+        a.once(cb, {signal: ac.signal});
+        ac.abort();
+        a.emit(1);
+        expect(cb).to.not.have.been.called;
+    });
+    describe('toPromise', () => {
+        it('must reject with AbortError on abort', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            const p = a.toPromise({signal: ac.signal, timeout: 1000});
+            ac.abort();
+            const err = await p.catch(e => e);
+            expect(err).to.be.instanceOf(Error);
+            expect(err.name).to.equal('AbortError');
+            expect(err.message).to.equal('Event aborted.');
+            expect(a.count).to.equal(0);
+        });
+        it('must reject when already aborted, with name', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            ac.abort();
+            const err = await a.toPromise({name: 'first', signal: ac.signal}).catch(e => e);
+            expect(err.name).to.equal('AbortError');
+            expect(err.message).to.equal('Event "first" aborted.');
+            expect(a.count).to.equal(0);
+        });
+        it('must ignore abort after resolving', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            const p = a.toPromise({signal: ac.signal});
+            a.emit(1);
+            ac.abort();
+            expect(await p).to.equal(1);
+        });
+        it('must not listen when the event is closed', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            a.complete();
+            const p = a.toPromise({signal: ac.signal});
+            ac.abort();
+            const err = await p.catch(e => e);
+            expect(err.message).to.equal('Event completed.');
+        });
+    });
+    describe('emitAsync', () => {
+        it('must reject with AbortError on abort', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            a.subscribe(() => new Promise(dummy));
+            const p = a.emitAsync(1, {signal: ac.signal});
+            ac.abort();
+            const err = await p.catch(e => e);
+            expect(err.name).to.equal('AbortError');
+            expect(err.message).to.equal('Event aborted.');
+        });
+        it('must not send data when already aborted', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            const cb = chai.spy();
+            a.subscribe(cb);
+            ac.abort();
+            const err = await a.emitAsync(1, {signal: ac.signal}).catch(e => e);
+            expect(err.name).to.equal('AbortError');
+            expect(cb).to.not.have.been.called;
+        });
+        it('must resolve normally, and stop listening', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            a.subscribe(data => data * 2);
+            const results = await a.emitAsync(1, {signal: ac.signal});
+            ac.abort();
+            expect(results).to.eql([{name: undefined, status: 'fulfilled', value: 2}]);
+        });
+        it('must time out with a signal', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            a.subscribe(() => new Promise(dummy));
+            const err = await a.emitAsync(1, {signal: ac.signal, timeout: 0}).catch(e => e);
+            ac.abort();
+            expect(err.message).to.equal('Event timed out.');
+        });
+    });
+});
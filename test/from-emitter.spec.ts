@@ -0,0 +1,39 @@
+import {EventEmitter} from 'events';
+import {dummy, expect} from './';
+import {ILeakInfo} from '../src';
+import {fromEmitter, fromEmitterArgs} from '../extras/src';
+
+describe('fromEmitter', () => {
+    it('must listen to the emitter only while subscribed', () => {
+        const e = new EventEmitter();
+        const values: string[] = [];
+        const onReceive = fromEmitter<string>(e, 'receive');
+        e.emit('receive', 'first');
+        const sub = onReceive.subscribe(data => values.push(data));
+        expect(e.listenerCount('receive')).to.eq(1);
+        e.emit('receive', 'second');
+        sub.cancel();
+        expect(e.listenerCount('receive')).to.eq(0);
+        e.emit('receive', 'third');
+        expect(values).to.eql(['second']);
+    });
+    it('must pass multiple arguments as a tuple', () => {
+        const e = new EventEmitter();
+        const values: [string, number][] = [];
+        fromEmitterArgs<[string, number]>(e, 'receive').subscribe(data => values.push(data));
+        e.emit('receive', 'first', 1);
+        expect(values).to.eql([['first', 1]]);
+    });
+    it('must pass eventOptions into the event', () => {
+        const e = new EventEmitter();
+        const infos: ILeakInfo<string>[] = [];
+        const onReceive = fromEmitter<string>(e, 'receive', undefined, {leakThreshold: 1, onLeak: info => infos.push(info)});
+        onReceive.subscribe(dummy);
+        expect(infos).to.be.empty;
+        onReceive.subscribe(dummy, {name: 'second'});
+        expect(infos.length).to.eq(1);
+        expect(infos[0].event).to.eq(onReceive);
+        expect(infos[0].count).to.eq(2);
+        expect(e.listenerCount('receive')).to.eq(1);
+    });
+});
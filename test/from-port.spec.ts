@@ -0,0 +1,84 @@
+import {dummy, expect} from './';
+import {SubEvent} from '../src';
+import {fromPort, toPort} from '../extras/src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('fromPort', () => {
+    const wt = (() => {
+        try {
+            return require('worker_threads');
+        } catch (e) {
+            return null;
+        }
+    })();
+    let ports: any[] = [];
+    const createChannel = () => {
+        const {port1, port2} = new wt.MessageChannel();
+        ports.push(port1, port2);
+        return {port1, port2};
+    };
+    beforeEach(function () {
+        if (!wt || typeof wt.MessagePort.prototype.addEventListener !== 'function') {
+            this.skip(); // requires MessagePort with EventTarget support
+        }
+    });
+    afterEach(() => {
+        ports.forEach(p => p.close());
+        ports = [];
+    });
+    it('must deliver data from the other side', async () => {
+        const {port1, port2} = createChannel();
+        const source = new SubEvent<number>();
+        toPort(source, port2, {channel: 'test', serialize: d => d * 10});
+        const twin = fromPort<number>(port1, {channel: 'test', deserialize: m => m + 1});
+        const received: number[] = [];
+        twin.subscribe(data => received.push(data));
+        await delay(10);
+        source.emit(1).emit(2);
+        await delay(10);
+        expect(received).to.eql([11, 21]);
+    });
+    it('must subscribe to the source only while listened to', async () => {
+        const {port1, port2} = createChannel();
+        const source = new SubEvent<number>();
+        toPort(source, port2);
+        const twin = fromPort<number>(port1);
+        await delay(10);
+        expect(source.count).to.equal(0);
+        const sub = twin.subscribe(dummy);
+        await delay(10);
+        expect(source.count).to.equal(1);
+        sub.cancel();
+        await delay(10);
+        expect(source.count).to.equal(0);
+    });
+    it('must detach from the port on cancel', async () => {
+        const {port1, port2} = createChannel();
+        const source = new SubEvent<number>();
+        const link = toPort(source, port2);
+        const received: number[] = [];
+        fromPort<number>(port1).subscribe(data => received.push(data));
+        await delay(10);
+        expect(link.cancel()).to.be.true;
+        expect(source.count).to.equal(0);
+        source.emit(1);
+        await delay(10);
+        expect(received).to.eql([]);
+    });
+    it('must keep the source while any receiver listens', async () => {
+        const {port1, port2} = createChannel();
+        const source = new SubEvent<number>();
+        toPort(source, port2);
+        const s1 = fromPort<number>(port1).subscribe(dummy);
+        const s2 = fromPort<number>(port1).subscribe(dummy); // second receiver on the same side
+        await delay(10);
+        expect(source.count).to.equal(1);
+        s1.cancel();
+        await delay(10);
+        expect(source.count).to.equal(1);
+        s2.cancel();
+        await delay(10);
+        expect(source.count).to.equal(0);
+    });
+});
@@ -0,0 +1,125 @@
+import {Duplex} from 'stream';
+import {chai, dummy, expect} from './';
+import {SubEvent} from '../src';
+import {fromStream, toStream} from '../extras/src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates two in-memory duplex streams, with data written into one readable from the other.
+ */
+function duplexPair(): [Duplex, Duplex] {
+    const a: Duplex = new Duplex({
+        read: dummy,
+        write: (chunk, encoding, cb) => {
+            b.push(chunk);
+            cb();
+        }
+    });
+    const b: Duplex = new Duplex({
+        read: dummy,
+        write: (chunk, encoding, cb) => {
+            a.push(chunk);
+            cb();
+        }
+    });
+    return [a, b];
+}
+
+describe('fromStream', () => {
+    it('must mirror subscriptions and deliver data', async () => {
+        const [client, server] = duplexPair();
+        const source = new SubEvent<number>();
+        toStream(source, server, {serialize: d => d * 10});
+        const remote = fromStream<number>(client, {deserialize: v => v + 1});
+        const received: number[] = [];
+        remote.subscribe(data => received.push(data), {name: 'first'});
+        await delay(10);
+        expect(source.count).to.equal(1);
+        expect(source.getStat().named).to.eql({first: 1});
+        source.emit(1).emit(2);
+        await delay(10);
+        expect(received).to.eql([11, 21]);
+    });
+    it('must cancel remote subscriptions on unsubscribe', async () => {
+        const [client, server] = duplexPair();
+        const source = new SubEvent<number>();
+        toStream(source, server);
+        const remote = fromStream<number>(client);
+        const s1 = remote.subscribe(dummy);
+        const s2 = remote.subscribe(dummy);
+        await delay(10);
+        expect(source.count).to.equal(2);
+        s1.cancel();
+        await delay(10);
+        expect(source.count).to.equal(1);
+        source.cancelAll(); // cancelled on the server side
+        await delay(10);
+        expect(s2.live).to.be.false;
+        expect(remote.count).to.equal(0);
+    });
+    it('must cancel all remote subscriptions when the server stops', async () => {
+        const [client, server] = duplexPair();
+        const source = new SubEvent<number>();
+        const link = toStream(source, server);
+        const remote = fromStream<number>(client);
+        const sub = remote.subscribe(dummy);
+        await delay(10);
+        link.cancel();
+        expect(source.count).to.equal(0);
+        await delay(10);
+        expect(sub.live).to.be.false;
+    });
+    it('must report invalid frames on both sides', async () => {
+        const [client, server] = duplexPair();
+        const serverError = chai.spy(), clientErrors: string[] = [];
+        toStream(new SubEvent<number>(), server, {onError: serverError});
+        const remote = fromStream<number>(client, {onError: err => clientErrors.push(err.message)});
+        remote.subscribe(dummy);
+        await delay(10);
+        client.write('null\n');
+        client.write('{bad json\n');
+        client.write('{"type":"unknown"}\n');
+        await delay(10);
+        expect(serverError).to.have.been.called.exactly(3);
+        expect(clientErrors).to.eql([
+            'Invalid frame: null',
+            'Invalid frame: {bad json',
+            'Invalid frame: {"type":"unknown"}'
+        ]); // reported back to the client
+        server.write('"text"\n');
+        server.write('{"type":"other"}\n');
+        await delay(10);
+        expect(clientErrors.slice(3)).to.eql(['Invalid frame: "text"', 'Invalid frame: {"type":"other"}']);
+    });
+    it('must report deserialize errors', async () => {
+        const [client, server] = duplexPair();
+        const source = new SubEvent<number>();
+        toStream(source, server);
+        const errors: string[] = [];
+        const remote = fromStream<number>(client, {
+            deserialize: v => {
+                if (v === 1) {
+                    throw new Error('Cannot deserialize');
+                }
+                return v;
+            }, onError: err => errors.push(err.message)
+        });
+        const received: number[] = [];
+        remote.subscribe(data => received.push(data));
+        await delay(10);
+        source.emit(1).emit(2);
+        await delay(10);
+        expect(errors).to.eql(['Cannot deserialize']);
+        expect(received).to.eql([2]);
+    });
+    it('must report errors from the client', async () => {
+        const [client, server] = duplexPair();
+        const onError = chai.spy();
+        toStream(new SubEvent<number>(), server, {onError});
+        client.write('{"type":"error","message":"Ops!"}\n');
+        client.write('{"type":"subscribe","id":1}\n{"type":"subscribe","id":1}\n');
+        await delay(10);
+        expect(onError).to.have.been.called.exactly(2);
+    });
+});
@@ -0,0 +1,99 @@
+import {dummy, expect} from './';
+import {EventHub, SubEvent, SubscriptionGroup} from '../src';
+
+describe('SubscriptionGroup', () => {
+    it('must cancel all subscriptions', () => {
+        const a = new SubEvent<number>();
+        const b = new SubEvent<string>();
+        const group = new SubscriptionGroup();
+        const s1 = group.subscribe(a, dummy);
+        const s2 = group.add(b.subscribe(dummy));
+        expect(group.live).to.be.true;
+        expect(group.count).to.equal(2);
+        expect(group.cancel()).to.be.true;
+        expect(group.cancel()).to.be.false;
+        expect(group.live).to.be.false;
+        expect(group.count).to.equal(0);
+        expect(s1.live || s2.live).to.be.false;
+        expect(a.count + b.count).to.equal(0);
+    });
+    it('must pass in subscription options', () => {
+        const a = new SubEvent<number>();
+        const group = new SubscriptionGroup();
+        const sub = group.subscribe(a, dummy, {name: 'first'});
+        expect(sub.name).to.equal('first');
+    });
+    it('must count only live subscriptions', () => {
+        const a = new SubEvent<number>();
+        const group = new SubscriptionGroup();
+        group.subscribe(a, dummy).cancel();
+        const sub = group.subscribe(a, dummy);
+        group.add(sub);
+        expect(group.count).to.equal(1);
+        a.cancelAll();
+        expect(group.count).to.equal(0);
+    });
+    it('must cancel subscriptions added after cancel', () => {
+        const a = new SubEvent<number>();
+        const group = new SubscriptionGroup();
+        group.cancel();
+        const sub = group.subscribe(a, dummy);
+        expect(sub.live).to.be.false;
+        expect(a.count).to.equal(0);
+    });
+    it('must remove items without cancelling them', () => {
+        const a = new SubEvent<number>();
+        const group = new SubscriptionGroup();
+        const sub = group.subscribe(a, dummy);
+        expect(group.remove(sub)).to.be.true;
+        expect(group.remove(sub)).to.be.false;
+        group.cancel();
+        expect(sub.live).to.be.true;
+    });
+    it('must support nested groups', () => {
+        const hub = new EventHub<{ a: number, b: string }>();
+        const group = new SubscriptionGroup();
+        const nested = group.add(new SubscriptionGroup());
+        group.add(hub.subscribe('a', dummy));
+        nested.add(hub.subscribe('b', dummy));
+        nested.add(hub.subscribe('b', dummy));
+        expect(group.count).to.equal(3);
+        group.cancel();
+        expect(nested.live).to.be.false;
+        expect(hub.event('a').count + hub.event('b').count).to.equal(0);
+    });
+    it('must drop cancelled nested groups', () => {
+        const a = new SubEvent<number>();
+        const group = new SubscriptionGroup();
+        const nested = group.add(new SubscriptionGroup());
+        const sub = nested.subscribe(a, dummy);
+        nested.cancel();
+        expect(group.remove(nested)).to.be.true;
+        group.add(nested);
+        expect(group.count).to.equal(0);
+        expect(group.remove(nested)).to.be.false;
+        expect(sub.live).to.be.false;
+    });
+    it('must throw on adding a group into itself', () => {
+        const group = new SubscriptionGroup();
+        const nested = group.add(new SubscriptionGroup());
+        const deep = nested.add(new SubscriptionGroup());
+        const err = 'Cannot add a subscription group into itself.';
+        expect(() => group.add(group)).to.throw(err);
+        expect(() => nested.add(group)).to.throw(err);
+        expect(() => deep.add(group)).to.throw(err);
+        expect(group.count).to.equal(0);
+        expect(() => group.add(deep)).not.to.throw();
+    });
+    it('must support Symbol.dispose', function () {
+        if (typeof (Symbol as any).dispose !== 'symbol') {
+            this.skip(); // requires Symbol.dispose support
+        }
+        const a = new SubEvent<number>();
+        const group: any = new SubscriptionGroup();
+        group.subscribe(a, dummy);
+        group[(Symbol as any).dispose]();
+        expect(group.live).to.be.false;
+        expect(a.count).to.equal(0);
+    });
+});
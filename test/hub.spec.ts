@@ -0,0 +1,88 @@
+import {dummy, expect} from './';
+import {EventConsumer, EventHub, HubConsumer, SubEventCount, Subscription} from '../src';
+
+const errInvalidOptions = `Invalid "options" parameter.`;
+
+interface ITestEvents {
+    login: string;
+    logout: void;
+    progress: number;
+}
+
+describe('EventHub', () => {
+    it('must throw on invalid options', () => {
+        expect(() => {
+            new EventHub(0 as any);
+        }).to.throw(errInvalidOptions);
+    });
+    it('must create events lazily', () => {
+        const hub = new EventHub<ITestEvents>({progress: {maxSubs: 3}});
+        expect(hub.getStat()).to.eql({});
+        const e = hub.event('progress');
+        expect(e).to.be.instanceOf(SubEventCount);
+        expect(e.maxSubs).to.eq(3);
+        expect(hub.event('progress')).to.equal(e);
+        expect(hub.event('login').maxSubs).to.eq(0);
+    });
+    it('must deliver data by event name', () => {
+        const hub = new EventHub<ITestEvents>();
+        const received: any[] = [];
+        hub.subscribe('login', data => received.push(data));
+        hub.subscribe('progress', data => received.push(data));
+        hub.once('logout', () => received.push('out'));
+        hub.emit('progress', 50).emit('login', 'user').emit('logout', undefined).emit('logout', undefined);
+        expect(received).to.eql([50, 'user', 'out']);
+        expect(new EventHub<ITestEvents>().emit('login', 'user').getStat()).to.eql({});
+    });
+    it('must resolve toPromise', async () => {
+        const hub = new EventHub<ITestEvents>();
+        setTimeout(() => {
+            hub.emit('progress', 10);
+        });
+        expect(await hub.toPromise('progress')).to.eq(10);
+    });
+    it('must report count and statistics across events', () => {
+        const hub = new EventHub<ITestEvents>();
+        hub.subscribe('login', dummy, {name: 'first'});
+        hub.subscribe('progress', dummy);
+        hub.subscribe('progress', dummy);
+        expect(hub.count).to.eq(3);
+        expect(hub.getStat()).to.eql({
+            login: {named: {first: 1}, unnamed: 0},
+            progress: {named: {}, unnamed: 2}
+        });
+    });
+    it('must cancel all subscriptions across events', () => {
+        const hub = new EventHub<ITestEvents>();
+        const sub1 = hub.subscribe('login', dummy);
+        const sub2 = hub.subscribe('progress', dummy);
+        expect(hub.cancelAll()).to.eq(2);
+        expect(sub1.live).to.be.false;
+        expect(sub2.live).to.be.false;
+        expect(hub.count).to.eq(0);
+    });
+});
+
+describe('HubConsumer', () => {
+    const hub = new EventHub<ITestEvents>();
+    const c = hub.toConsumer();
+    it('can initialize', () => {
+        expect(c).to.be.instanceOf(HubConsumer);
+    });
+    it('must forward methods correctly', () => {
+        expect(c.event('login')).to.be.instanceOf(EventConsumer);
+        expect(c.subscribe('login', dummy)).to.be.instanceOf(Subscription);
+        expect(c.once('progress', dummy)).to.be.instanceOf(Subscription);
+        expect(c.toPromise('logout')).to.be.instanceOf(Promise);
+        expect(c.count).to.eq(3);
+        expect(c.getStat()).to.eql({
+            login: {named: {}, unnamed: 1},
+            progress: {named: {}, unnamed: 1},
+            logout: {named: {}, unnamed: 1}
+        });
+    });
+    it('must not have hidden methods', () => {
+        expect((c as any).emit).to.be.undefined;
+        expect((c as any).cancelAll).to.be.undefined;
+    });
+});
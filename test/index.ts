@@ -10,4 +10,15 @@ const should = chai.should();
 const dummy = () => {
 };
 
-export {describe, expect, should, chai, dummy};
+/**
+ * Runs garbage collection until done() returns true, or for up to 10 times.
+ * Requires node --expose-gc.
+ */
+const collect = async (done: () => boolean) => {
+    for (let i = 0; i < 10 && !done(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10)); // references read by done() are kept until then
+        (global as any).gc();
+    }
+};
+
+export {describe, expect, should, chai, dummy, collect};
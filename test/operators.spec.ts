@@ -0,0 +1,190 @@
+import {chai, expect} from './';
+import {
+    bufferTime,
+    createOperator,
+    debounce,
+    distinctUntilChanged,
+    filter,
+    map,
+    skip,
+    SubEvent,
+    take,
+    throttle
+} from '../src';
+
+const errNoOperators = `At least one operator is required.`;
+
+describe('pipe', () => {
+    it('must throw without operators', () => {
+        const e = new SubEvent();
+        expect(() => {
+            e.pipe();
+        }).to.throw(errNoOperators);
+    });
+    it('must subscribe upstream only while it has subscribers', () => {
+        const e = new SubEvent<number>();
+        const d = e.pipe(map(a => a * 2));
+        expect(e.count).to.eq(0);
+        const sub1 = d.subscribe(() => 1);
+        const sub2 = d.subscribe(() => 2);
+        expect(e.count).to.eq(1);
+        sub1.cancel();
+        expect(e.count).to.eq(1);
+        sub2.cancel();
+        expect(e.count).to.eq(0);
+    });
+    it('must chain operators in order', () => {
+        const e = new SubEvent<number>();
+        const received: string[] = [];
+        e.pipe(filter(a => a > 1), map(a => `value: ${a}`)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(2).emit(3);
+        expect(received).to.eql(['value: 2', 'value: 3']);
+    });
+    it('must be forwarded by EventConsumer', () => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        e.toConsumer().pipe(map(a => a + 1)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1);
+        expect(received).to.eql([2]);
+    });
+    it('must support custom operators', () => {
+        const e = new SubEvent<number>();
+        const double = createOperator<number, number>(target => ({
+            next: data => target.emit(data * 2)
+        }));
+        const received: number[] = [];
+        e.pipe(double).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(5);
+        expect(received).to.eql([10]);
+    });
+    it('must complete with the source', () => {
+        const e = new SubEvent<number>();
+        const d = e.pipe(map(a => a * 2));
+        const onComplete = chai.spy();
+        const sub = d.subscribe(() => 1, {onComplete});
+        e.complete();
+        expect(onComplete).to.have.been.called.once;
+        expect(sub.live).to.be.false;
+        expect(d.closed).to.be.true;
+        expect(e.count).to.eq(0);
+    });
+    it('must fail with the source', () => {
+        const e = new SubEvent<number>();
+        const d = e.pipe(map(a => a * 2));
+        const err = new Error('Ops!');
+        const onError = chai.spy();
+        d.subscribe(() => 1, {onError});
+        e.error(err);
+        expect(onError).to.have.been.called.with(err);
+        expect(d.closed).to.be.true;
+    });
+    it('must complete when the source is already closed', () => {
+        const e = new SubEvent<number>();
+        e.complete();
+        const d = e.pipe(map(a => a * 2));
+        const onComplete = chai.spy();
+        const sub = d.subscribe(() => 1, {onComplete});
+        expect(onComplete).to.have.been.called.once;
+        expect(sub.live).to.be.false;
+        expect(d.count).to.eq(0);
+        expect(d.closed).to.be.true;
+    });
+});
+
+describe('operators', () => {
+    it('take must cancel after count', () => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        const sub = e.pipe(take(2)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(2).emit(3);
+        expect(received).to.eql([1, 2]);
+        expect(sub.live).to.be.false;
+        expect(e.count).to.eq(0);
+    });
+    it('take must not emit for zero count', () => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        const sub = e.pipe(take(0)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1);
+        expect(received).to.eql([]);
+        expect(sub.live).to.be.false;
+    });
+    it('skip must ignore the first values', () => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        e.pipe(skip(2)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(2).emit(3);
+        expect(received).to.eql([3]);
+    });
+    it('distinctUntilChanged must skip repeated values', () => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        e.pipe(distinctUntilChanged()).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(1).emit(2).emit(1);
+        expect(received).to.eql([1, 2, 1]);
+    });
+    it('distinctUntilChanged must use custom comparison', () => {
+        const e = new SubEvent<string>();
+        const received: string[] = [];
+        e.pipe(distinctUntilChanged<string>((a, b) => a.toLowerCase() === b.toLowerCase())).subscribe(data => {
+            received.push(data);
+        });
+        e.emit('a').emit('A').emit('b');
+        expect(received).to.eql(['a', 'b']);
+    });
+    it('debounce must emit the last value after a pause', done => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        const sub = e.pipe(debounce(5)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(2).emit(3);
+        expect(received).to.eql([]);
+        setTimeout(() => {
+            expect(received).to.eql([3]);
+            sub.cancel();
+            done();
+        }, 20);
+    });
+    it('throttle must ignore values within the timeout', done => {
+        const e = new SubEvent<number>();
+        const received: number[] = [];
+        const sub = e.pipe(throttle(5)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(2);
+        setTimeout(() => {
+            e.emit(3);
+            expect(received).to.eql([1, 3]);
+            sub.cancel();
+            done();
+        }, 20);
+    });
+    it('bufferTime must emit collected values', done => {
+        const e = new SubEvent<number>();
+        const received: number[][] = [];
+        const sub = e.pipe(bufferTime(5)).subscribe(data => {
+            received.push(data);
+        });
+        e.emit(1).emit(2);
+        setTimeout(() => {
+            expect(received).to.eql([[1, 2]]);
+            sub.cancel();
+            done();
+        }, 20);
+    });
+});
@@ -0,0 +1,223 @@
+import {dummy, expect} from './';
+import {EmitSchedule, SubEvent, SubEventCount} from '../src';
+import {ITrafficEntry, parseTraffic, recordTraffic, replayTraffic, VirtualClock} from '../extras/src';
+
+describe('recordTraffic', () => {
+    it('must record the event traffic, with time', () => {
+        const clock = new VirtualClock(100);
+        const a = new SubEvent<number>();
+        const rec = recordTraffic(a, clock);
+        const sub = a.subscribe(dummy, {name: 'first'});
+        clock.advanceBy(5);
+        a.emit(1);
+        a.emit(2, {schedule: EmitSchedule.sync});
+        clock.advanceBy(5);
+        sub.cancel();
+        a.error(new Error('Ops!'));
+        a.complete();
+        expect(rec.entries).to.eql([
+            {time: 0, type: 'subscribe', name: 'first'},
+            {time: 5, type: 'emit', data: 1},
+            {time: 5, type: 'emit', data: 2, schedule: 'sync'},
+            {time: 10, type: 'cancel', name: 'first'},
+            {time: 10, type: 'error', error: 'Ops!'}
+        ]);
+    });
+    it('must record emitAsync', async () => {
+        const a = new SubEvent<number>();
+        const rec = recordTraffic(a);
+        a.subscribe(data => data * 2);
+        expect(await a.emitAsync(5)).to.eql([{name: undefined, status: 'fulfilled', value: 10}]);
+        expect(rec.entries.map(({time, ...e}) => e)).to.eql([
+            {type: 'subscribe', name: undefined},
+            {type: 'emit', data: 5, async: true}
+        ]);
+    });
+    it('must record completion once', () => {
+        const a = new SubEvent<number>();
+        const rec = recordTraffic(a);
+        a.complete();
+        a.complete();
+        expect(rec.entries.map(e => e.type)).to.eql(['complete']);
+    });
+    it('must not record subscriptions that are not live', () => {
+        const a = new SubEvent<number>();
+        const rec = recordTraffic(a);
+        a.complete();
+        const sub = a.subscribe(dummy);
+        expect(sub.live).to.be.false;
+        expect(rec.entries.map(e => e.type)).to.eql(['complete']);
+    });
+    it('must not record subscriptions with an aborted signal', function () {
+        if (typeof AbortController === 'undefined') {
+            this.skip(); // requires AbortController support
+        }
+        const a = new SubEvent<number>();
+        const rec = recordTraffic(a);
+        const ac = new AbortController();
+        ac.abort();
+        a.subscribe(dummy, {signal: ac.signal});
+        expect(rec.entries).to.be.empty;
+    });
+    it('must keep the original onCancel and invalid options errors', () => {
+        const a = new SubEvent<number>();
+        recordTraffic(a);
+        let cancelled = false;
+        a.subscribe(dummy, {onCancel: () => cancelled = true}).cancel();
+        expect(cancelled).to.be.true;
+        expect(() => a.subscribe(dummy, 0 as any)).to.throw(`Invalid "options" parameter.`);
+    });
+    it('must restore the event methods on stop', () => {
+        const a = new SubEvent<number>();
+        const rec = recordTraffic(a);
+        expect(rec.recording).to.be.true;
+        expect(rec.stop()).to.be.true;
+        expect(rec.stop()).to.be.false;
+        expect(rec.recording).to.be.false;
+        expect(Object.keys(a)).not.to.include('emit');
+        a.subscribe(dummy);
+        a.emit(1);
+        expect(rec.entries).to.be.empty;
+    });
+    it('must round-trip the entries through NDJSON', () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<{ text: string }>();
+        const rec = recordTraffic(a, clock);
+        a.subscribe(dummy);
+        clock.advanceBy(3);
+        a.emit({text: 'line\nbreak'});
+        a.complete();
+        const ndjson = rec.toNDJSON();
+        expect(ndjson.split('\n')).to.have.length(rec.entries.length + 1); // one line per entry
+        expect(parseTraffic(ndjson)).to.eql(JSON.parse(JSON.stringify(rec.entries))); // without undefined names
+    });
+});
+
+describe('replayTraffic', () => {
+    const traffic: ITrafficEntry<number>[] = [
+        {time: 0, type: 'subscribe', name: 'first'},
+        {time: 10, type: 'emit', data: 1},
+        {time: 20, type: 'emit', data: 2, schedule: EmitSchedule.sync},
+        {time: 30, type: 'cancel', name: 'first'},
+        {time: 40, type: 'complete'}
+    ];
+    it('must replay data with the original timing', async () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>();
+        const values: number[] = [];
+        let completed = false;
+        a.subscribe(data => values.push(data), {onComplete: () => completed = true});
+        const p = replayTraffic(a, traffic, {clock});
+        clock.advanceBy(10);
+        expect(values).to.eql([1]);
+        clock.advanceBy(10);
+        expect(values).to.eql([1, 2]);
+        clock.advanceBy(20);
+        expect(completed).to.be.true;
+        await p;
+    });
+    it('must replay faster with option speed', async () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<number>();
+        const values: number[] = [];
+        a.subscribe(data => values.push(data));
+        const p = replayTraffic(a, traffic, {clock, speed: 2});
+        clock.advanceBy(10);
+        expect(values).to.eql([1, 2]);
+        clock.advanceBy(10);
+        await p;
+        expect(a.closed).to.be.true;
+    });
+    it('must replay emitAsync via emitAsync', async () => {
+        const a = new SubEvent<number>();
+        const log: string[] = [];
+        a.subscribe(data => log.push(`received ${data}`));
+        const {emit, emitAsync} = a;
+        a.emit = (data: number) => {
+            log.push(`emit ${data}`);
+            return emit.call(a, data);
+        };
+        a.emitAsync = (data: number) => {
+            log.push(`emitAsync ${data}`);
+            return emitAsync.call(a, data);
+        };
+        await replayTraffic(a, [{time: 0, type: 'emit', data: 1, async: true}, {time: 0, type: 'emit', data: 2}], {speed: Infinity});
+        expect(log).to.eql(['emitAsync 1', 'received 1', 'emit 2', 'received 2']);
+    });
+    it('must replay NDJSON, with failures as errors', async () => {
+        const a = new SubEvent<number>();
+        let err: any;
+        a.subscribe(dummy, {onError: e => err = e});
+        await replayTraffic(a, '{"time":0,"type":"error","error":"Ops!"}\n', {speed: Infinity});
+        expect(err).to.be.instanceOf(Error);
+        expect(err.message).to.eq('Ops!');
+    });
+    it('must replay subscriptions with option subscriptions', async () => {
+        const clock = new VirtualClock();
+        const a = new SubEventCount<number>();
+        const counts: number[] = [];
+        a.onCount.subscribe(info => counts.push(info.newCount));
+        const p = replayTraffic(a, traffic, {clock, subscriptions: true});
+        clock.advanceBy(0);
+        expect(a.count).to.eq(1);
+        expect(a.getStat().named).to.eql({first: 1});
+        clock.advanceBy(30);
+        expect(a.count).to.eq(0);
+        clock.advanceBy(10);
+        await p;
+        expect(counts).to.eql([1, 0]);
+        const b = new SubEvent<number>();
+        await replayTraffic(b, traffic, {speed: Infinity});
+        expect(b.getStat().named).to.eql({});
+    });
+    it('must reject when emitting throws', async () => {
+        const a = new SubEvent<number>();
+        a.subscribe(() => {
+            throw new Error('Failed');
+        });
+        const err = await replayTraffic(a, traffic, {speed: Infinity}).catch(e => e);
+        expect(err.message).to.eq('Failed');
+    });
+    describe('signal', () => {
+        beforeEach(function () {
+            if (typeof AbortController === 'undefined') {
+                this.skip(); // requires AbortController support
+            }
+        });
+        it('must reject with AbortError on abort', async () => {
+            const clock = new VirtualClock();
+            const a = new SubEvent<number>();
+            const values: number[] = [];
+            a.subscribe(data => values.push(data));
+            const ac = new AbortController();
+            const p = replayTraffic(a, traffic, {clock, signal: ac.signal});
+            clock.advanceBy(10);
+            ac.abort();
+            const err = await p.catch(e => e);
+            expect(err.name).to.eq('AbortError');
+            expect(err.message).to.eq('Replay aborted.');
+            expect(clock.pending).to.eq(0);
+            clock.advanceBy(100);
+            expect(values).to.eql([1]);
+        });
+        it('must reject when aborted already', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            ac.abort();
+            const err = await replayTraffic(a, traffic, {signal: ac.signal}).catch(e => e);
+            expect(err.name).to.eq('AbortError');
+        });
+        it('must finish without a reject, when aborted after the replay', async () => {
+            const a = new SubEvent<number>();
+            const ac = new AbortController();
+            await replayTraffic(a, traffic, {speed: Infinity, signal: ac.signal});
+            ac.abort();
+            const b = new SubEvent<number>();
+            b.subscribe(() => {
+                throw new Error('Failed');
+            });
+            const err = await replayTraffic(b, traffic, {speed: Infinity, signal: new AbortController().signal}).catch(e => e);
+            expect(err.message).to.eq('Failed');
+        });
+    });
+});
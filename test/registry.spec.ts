@@ -0,0 +1,54 @@
+import {collect, dummy, expect} from './';
+import {EventRegistry, SubEvent, SubEventCount} from '../src';
+import {WeakOwner} from '../src/utils';
+
+describe('EventRegistry', () => {
+    it('must register events with a label', () => {
+        const a = new SubEvent({label: 'first'});
+        const b = new SubEventCount({label: 'second'});
+        const c = new SubEvent();
+        const events = EventRegistry.events();
+        expect(events).to.eql([{label: 'first', event: a}, {label: 'second', event: b}]);
+        expect(events.some(e => e.event === c)).to.be.false;
+        expect(EventRegistry.unregister(a)).to.be.true;
+        expect(EventRegistry.unregister(b)).to.be.true;
+        expect(EventRegistry.unregister(c)).to.be.false;
+        expect(EventRegistry.size).to.eq(0);
+    });
+    it('must replace the registration', () => {
+        const a = new SubEvent({label: 'first'});
+        EventRegistry.register(a, 'renamed');
+        expect(EventRegistry.events()).to.eql([{label: 'renamed', event: a}]);
+        EventRegistry.unregister(a);
+    });
+    it('must aggregate diagnostics', () => {
+        const a = new SubEvent({label: 'first', maxSubs: 5});
+        const b = new SubEvent({label: 'second'});
+        a.subscribe(dummy, {name: 'one'});
+        a.subscribe(dummy);
+        b.subscribe(dummy);
+        b.complete();
+        const snapshot = EventRegistry.snapshot();
+        expect(snapshot.time).to.be.a('number');
+        expect(snapshot.count).to.eq(2);
+        expect(snapshot.events).to.eql([
+            {label: 'first', count: 2, maxSubs: 5, closed: false, stat: {named: {one: 1}, unnamed: 1}},
+            {label: 'second', count: 0, maxSubs: 0, closed: true, stat: {named: {}, unnamed: 0}}
+        ]);
+        expect(JSON.parse(EventRegistry.toJSON({minUse: 2})).events[0].stat).to.eql({named: {}, unnamed: 1});
+        expect(EventRegistry.toJSON(undefined, 2)).to.contain('\n  "count": 2');
+        EventRegistry.unregister(a);
+        EventRegistry.unregister(b);
+    });
+    it('must not prevent events from being collected', async function () {
+        if (typeof (global as any).gc !== 'function' || !WeakOwner.supported) {
+            this.skip(); // requires node --expose-gc, plus WeakRef and FinalizationRegistry
+        }
+        (() => {
+            const a = new SubEvent({label: 'temp'});
+            a.subscribe(dummy);
+        })();
+        await collect(() => !EventRegistry.size);
+        expect(EventRegistry.size).to.eq(0);
+    });
+});
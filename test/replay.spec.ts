@@ -0,0 +1,144 @@
+import {chai, dummy, expect} from './';
+import {BehaviorEvent, QueueOverflow, ReplayEvent} from '../src';
+
+describe('ReplayEvent', () => {
+    it('must replay the last value by default', () => {
+        const e = new ReplayEvent<number>();
+        const received: number[] = [];
+        e.emit(1).emit(2);
+        e.subscribe(data => received.push(data));
+        e.emit(3);
+        expect(received).to.eql([2, 3]);
+    });
+    it('must replay according to bufferSize', () => {
+        const e = new ReplayEvent<number>({bufferSize: 2});
+        const received: number[] = [];
+        e.emit(1).emit(2).emit(3);
+        e.subscribe(data => received.push(data));
+        expect(received).to.eql([2, 3]);
+    });
+    it('must not replay expired values', done => {
+        const e = new ReplayEvent<number>({bufferSize: 2, maxAge: 5});
+        const received: number[] = [];
+        e.emit(1);
+        setTimeout(() => {
+            e.emit(2);
+            e.subscribe(data => received.push(data));
+            expect(received).to.eql([2]);
+            done();
+        }, 20);
+    });
+    it('must honour thisArg and name', () => {
+        const e = new ReplayEvent<number>();
+        const err = new Error('Ops!');
+        const context = {};
+        const onError = chai.spy(dummy);
+        let thisArg: any;
+        e.emit(1, {onError});
+        e.subscribe(function (this: any) {
+            thisArg = this;
+            throw err;
+        }, {thisArg: context, name: 'replayed'});
+        expect(thisArg).to.equal(context);
+        expect(onError).to.have.been.called.with(err, 'replayed');
+    });
+    it('must not replay outside of maxSubs quota', () => {
+        const e = new ReplayEvent<number>({maxSubs: 1});
+        const received: number[] = [];
+        e.emit(1);
+        e.subscribe(dummy);
+        e.subscribe(data => received.push(data));
+        expect(received).to.eql([]);
+    });
+    it('must support once with replayed values', () => {
+        const e = new ReplayEvent<number>({bufferSize: 2});
+        const received: number[] = [];
+        e.emit(1).emit(2);
+        const sub = e.once(function (this: number[], data) {
+            this.push(data);
+        }, {thisArg: received});
+        expect(received).to.eql([1]);
+        expect(sub.live).to.be.false;
+        expect(e.count).to.eq(0);
+    });
+    it('must support once without replayed values', () => {
+        const e = new ReplayEvent<number>();
+        const received: number[] = [];
+        const sub = e.once(data => received.push(data));
+        expect(sub.live).to.be.true;
+        e.emit(1).emit(2);
+        expect(received).to.eql([1]);
+        expect(sub.live).to.be.false;
+    });
+    it('must resolve toPromise immediately when cached', async () => {
+        const e = new ReplayEvent<number>();
+        e.emit(1);
+        expect(await e.toPromise()).to.eq(1);
+        expect(await e.toPromise({timeout: 10})).to.eq(1);
+        expect(e.count).to.eq(0);
+    });
+    it('must resolve toPromise with the next value when not cached', async () => {
+        const e = new ReplayEvent<number>();
+        setTimeout(() => {
+            e.emit(2);
+        });
+        expect(await e.toPromise()).to.eq(2);
+    });
+    it('must not resolve from the cache when aborted', async function () {
+        if (typeof AbortController === 'undefined') {
+            this.skip(); // requires AbortController support
+        }
+        const e = new ReplayEvent<number>();
+        const ac = new AbortController();
+        e.emit(1);
+        expect(await e.toPromise({signal: ac.signal})).to.equal(1);
+        ac.abort();
+        const err = await e.toPromise({signal: ac.signal}).catch(er => er);
+        expect(err.name).to.equal('AbortError');
+    });
+    it('must not resolve from the cache, or cache, once closed', async () => {
+        const e = new ReplayEvent<number>({bufferSize: 2});
+        e.emit(1);
+        e.complete();
+        e.emit(2);
+        const err = await e.toPromise().catch(er => er);
+        expect(err.message).to.equal('Event completed.');
+        const values: number[] = [];
+        e.subscribe(data => values.push(data));
+        expect(values).to.be.empty;
+        const b = new BehaviorEvent<number>(1);
+        b.error(new Error('Ops!'));
+        b.emit(2);
+        expect(b.value).to.equal(1);
+        expect(await b.toPromise().then(() => null, er => er.message)).to.equal('Ops!');
+    });
+    it('must fail iteration on overflow from the replay', async () => {
+        const e = new ReplayEvent<number>({bufferSize: 3});
+        e.emit(1).emit(2).emit(3);
+        const i = e.toAsyncIterable({maxSize: 1, overflow: QueueOverflow.throw});
+        expect(e.count).to.equal(0);
+        const err = await i.next().catch(er => er);
+        expect(err.message).to.equal('Event queue overflow.');
+        expect(await i.next()).to.eql({value: undefined, done: true});
+    });
+});
+
+describe('BehaviorEvent', () => {
+    it('must start with the initial value', () => {
+        const e = new BehaviorEvent('idle');
+        const received: string[] = [];
+        expect(e.value).to.eq('idle');
+        e.subscribe(data => received.push(data));
+        e.emit('busy');
+        expect(received).to.eql(['idle', 'busy']);
+        expect(e.value).to.eq('busy');
+    });
+    it('must keep only the current value', () => {
+        const e = new BehaviorEvent(0, {maxSubs: 5});
+        const received: number[] = [];
+        e.emit(1).emit(2);
+        e.subscribe(data => received.push(data));
+        expect(received).to.eql([2]);
+        expect(e.maxSubs).to.eq(5);
+    });
+});
@@ -0,0 +1,93 @@
+import {expect} from './';
+import {FrameScheduler, immediateScheduler, microtaskScheduler, SubEvent, SubEventCount, VirtualScheduler} from '../src';
+
+describe('schedulers', () => {
+    it('must support microtaskScheduler', async () => {
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        a.subscribe(data => received.push(data));
+        a.emit(1, {schedule: microtaskScheduler});
+        expect(received).to.eql([]);
+        await Promise.resolve();
+        expect(received).to.eql([1]);
+    });
+    it('must support immediateScheduler', done => {
+        const a = new SubEvent<number>();
+        a.subscribe(data => {
+            expect(data).to.eq(1);
+            done();
+        });
+        a.emit(1, {schedule: immediateScheduler});
+    });
+    it('must batch callbacks into one frame', () => {
+        const frames: Array<() => void> = [];
+        const frame = new FrameScheduler(cb => frames.push(cb));
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        a.subscribe(data => received.push(data));
+        a.emit(1, {schedule: frame}).emit(2, {schedule: frame});
+        expect(frames.length).to.eq(1);
+        frames[0]();
+        expect(received).to.eql([1, 2]);
+        a.emit(3, {schedule: frame});
+        expect(frames.length).to.eq(2);
+    });
+    it('must run the rest of the frame after an error', done => {
+        const frames: Array<() => void> = [];
+        const frame = new FrameScheduler(cb => frames.push(cb));
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        a.subscribe(data => {
+            if (data === 1) {
+                throw new Error('Ops!');
+            }
+            received.push(data);
+        });
+        a.emit(1, {schedule: frame}).emit(2, {schedule: frame});
+        const listeners = process.listeners('uncaughtException');
+        process.removeAllListeners('uncaughtException');
+        process.once('uncaughtException', err => {
+            listeners.forEach(l => process.on('uncaughtException', l));
+            expect(err.message).to.eq('Ops!');
+            expect(received).to.eql([2]);
+            done();
+        });
+        frames[0]();
+        expect(received).to.eql([2]);
+    });
+    it('must use a timer for frames by default', done => {
+        const frame = new FrameScheduler();
+        frame.schedule(done);
+    });
+    it('must hold callbacks in VirtualScheduler', () => {
+        const scheduler = new VirtualScheduler();
+        const a = new SubEvent<number>();
+        const received: number[] = [];
+        let finished = 0;
+        a.subscribe(data => {
+            received.push(data);
+            if (data === 1) {
+                a.emit(3, {schedule: scheduler});
+            }
+        });
+        a.emit(1, {schedule: scheduler, onFinished: count => finished += count}).emit(2, {schedule: scheduler});
+        expect(scheduler.pending).to.eq(2);
+        expect(received).to.eql([]);
+        expect(scheduler.step()).to.be.true;
+        expect(received).to.eql([1]);
+        expect(finished).to.eq(1);
+        expect(scheduler.flush()).to.eq(2);
+        expect(received).to.eql([1, 2, 3]);
+        expect(scheduler.step()).to.be.false;
+    });
+    it('must be usable for onCount emit options', () => {
+        const scheduler = new VirtualScheduler();
+        const a = new SubEventCount({emitOptions: {schedule: scheduler}});
+        const counts: number[] = [];
+        a.onCount.subscribe(info => counts.push(info.newCount));
+        a.subscribe(() => 1);
+        expect(counts).to.eql([]);
+        scheduler.flush();
+        expect(counts).to.eql([1]);
+    });
+});
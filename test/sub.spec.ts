@@ -34,4 +34,37 @@ describe('Subscription', () => {
             done();
         });
     });
+    describe('signal', () => {
+        beforeEach(function () {
+            if (typeof AbortController === 'undefined') {
+                this.skip(); // requires AbortController support
+            }
+        });
+        it('must abort on cancel', () => {
+            const a = new SubEvent();
+            const sub = a.subscribe(dummy);
+            const signal = sub.signal;
+            expect(signal.aborted).to.be.false;
+            expect(sub.signal).to.equal(signal);
+            sub.cancel();
+            expect(signal.aborted).to.be.true;
+        });
+        it('must abort on cancelAll and complete', () => {
+            const a = new SubEvent();
+            const s1 = a.subscribe(dummy).signal;
+            a.cancelAll();
+            expect(s1.aborted).to.be.true;
+            const s2 = a.subscribe(dummy).signal;
+            a.complete();
+            expect(s2.aborted).to.be.true;
+        });
+        it('must be aborted when created after the subscription ended', () => {
+            const a = new SubEvent();
+            const sub = a.subscribe(dummy);
+            sub.cancel();
+            expect(sub.signal.aborted).to.be.true;
+            a.complete();
+            expect(a.subscribe(dummy).signal.aborted).to.be.true;
+        });
+    });
 });
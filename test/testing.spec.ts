@@ -0,0 +1,134 @@
+import {expect} from './';
+import {SubEvent} from '../src';
+import {fromInterval, recordEvent, TimeoutEvent, VirtualClock} from '../extras/src';
+
+describe('VirtualClock', () => {
+    it('must run timers in the order of their time', () => {
+        const clock = new VirtualClock(100);
+        const log: string[] = [];
+        clock.setTimeout(() => log.push(`second at ${clock.now()}`), 20);
+        clock.setTimeout(() => log.push(`first at ${clock.now()}`), 10);
+        const h = clock.setTimeout(() => log.push('cleared'), 5);
+        clock.clearTimeout(h);
+        expect(clock.pending).to.eq(2);
+        expect(clock.advanceBy(15)).to.eq(1);
+        expect(clock.now()).to.eq(115);
+        expect(clock.advanceBy(15)).to.eq(1);
+        expect(log).to.eql(['first at 110', 'second at 120']);
+        expect(clock.pending).to.eq(0);
+        expect(clock.now()).to.eq(130);
+    });
+    it('must repeat intervals until cleared', () => {
+        const clock = new VirtualClock();
+        const times: number[] = [];
+        const h = clock.setInterval(() => times.push(clock.now()), 10);
+        expect(clock.advanceBy(35)).to.eq(3);
+        clock.clearInterval(h);
+        expect(clock.advanceBy(100)).to.eq(0);
+        expect(times).to.eql([10, 20, 30]);
+    });
+    it('must flush zero-delay timers without moving the time', () => {
+        const clock = new VirtualClock();
+        const log: number[] = [];
+        clock.schedule(() => {
+            log.push(1);
+            clock.schedule(() => log.push(2));
+        });
+        clock.setTimeout(() => log.push(3), 1);
+        expect(clock.flush()).to.eq(2);
+        expect(log).to.eql([1, 2]);
+        expect(clock.now()).to.eq(0);
+        expect(clock.pending).to.eq(1);
+    });
+    it('must drive fromInterval', () => {
+        const clock = new VirtualClock();
+        const ticks = fromInterval(10, undefined, {clock});
+        let count = 0;
+        const sub = ticks.subscribe(() => count++);
+        clock.advanceBy(30);
+        sub.cancel();
+        expect(clock.pending).to.eq(0);
+        clock.advanceBy(30);
+        expect(count).to.eq(3);
+    });
+});
+
+describe('EventRecorder', () => {
+    it('must record data and completion, with their time', () => {
+        const clock = new VirtualClock(50);
+        const a = new SubEvent<number>();
+        const rec = recordEvent(a, clock);
+        a.emit(1);
+        clock.advanceBy(5);
+        a.emit(2);
+        a.complete();
+        expect(rec.values).to.eql([1, 2]);
+        expect(rec.records).to.eql([
+            {time: 50, type: 'data', data: 1},
+            {time: 55, type: 'data', data: 2},
+            {time: 55, type: 'complete'}
+        ]);
+    });
+    it('must record a failure', () => {
+        const a = new SubEvent<number>();
+        const rec = recordEvent(a);
+        const err = new Error('Ops!');
+        a.error(err);
+        expect(rec.records).to.have.length(1);
+        expect(rec.records[0]).to.include({type: 'error', error: err});
+    });
+    it('must record an external cancellation, but not its own', () => {
+        const clock = new VirtualClock();
+        const a = new TimeoutEvent(20, undefined, {clock});
+        const rec = recordEvent(a, clock);
+        clock.advanceBy(20);
+        rec.expectMarbles('--(!x)', {frame: 10, values: {x: undefined}}); // cancelled before the notification
+        const b = new SubEvent<number>();
+        const rec2 = recordEvent(b, clock);
+        rec2.cancel();
+        b.emit(1);
+        expect(b.count).to.eq(0);
+        expect(rec2.records).to.be.empty;
+    });
+    it('must drive marbles from fromInterval', () => {
+        const clock = new VirtualClock();
+        const rec = recordEvent(fromInterval(10, undefined, {clock}), clock);
+        clock.advanceBy(30);
+        rec.cancel();
+        clock.advanceBy(30);
+        rec.expectMarbles('-xxx', {frame: 10, values: {x: undefined}});
+    });
+    it('must map values into marble characters', () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<any>();
+        const rec = recordEvent(a, clock);
+        a.emit('a');
+        a.emit({value: 1});
+        clock.advanceBy(2);
+        a.emit(7);
+        a.error(new Error());
+        expect(rec.toMarbles({values: {o: {value: 1}}})).to.eq('(ao)-(7#)');
+        rec.expectMarbles('(ao)-(7#)', {values: {o: {value: 1}}});
+    });
+    it('must throw for values without a single-character marble', () => {
+        const a = new SubEvent<any>();
+        const rec = recordEvent(a);
+        a.emit(10);
+        expect(() => rec.toMarbles()).to.throw('No single-character marble for value: 10.');
+        expect(rec.toMarbles({values: {t: 10}})).to.eq('t');
+        const b = new SubEvent<any>();
+        const rec2 = recordEvent(b);
+        b.emit({value: 1});
+        expect(() => rec2.toMarbles()).to.throw('No single-character marble for value: {"value":1}.');
+    });
+    it('must throw on different marbles', () => {
+        const clock = new VirtualClock();
+        const a = new SubEvent<string>();
+        const rec = recordEvent(a, clock);
+        a.emit('a');
+        clock.advanceBy(1);
+        a.complete();
+        expect(() => rec.expectMarbles('a|')).not.to.throw();
+        expect(() => rec.expectMarbles('(a|)')).to.throw('Expected marbles "(a|)", but recorded "a|".');
+    });
+});
@@ -0,0 +1,91 @@
+import {dummy, expect} from './';
+import {ITopicMessage, TopicRouter} from '../src';
+
+describe('TopicRouter', () => {
+    it('must match patterns correctly', () => {
+        const m = TopicRouter.match;
+        expect(m('order.created', 'order.created')).to.be.true;
+        expect(m('order.created', 'order.deleted')).to.be.false;
+        expect(m('order.*.created', 'order.eu.created')).to.be.true;
+        expect(m('order.*.created', 'order.created')).to.be.false;
+        expect(m('order.*', 'order.eu.created')).to.be.false;
+        expect(m('order.#', 'order')).to.be.true;
+        expect(m('order.#', 'order.eu.created')).to.be.true;
+        expect(m('#', 'order.eu.created')).to.be.true;
+        expect(m('#.created', 'order.eu.created')).to.be.true;
+        expect(m('#.created', 'order.eu.deleted')).to.be.false;
+        expect(m('order.#.created', 'order.created')).to.be.true;
+        expect(m('order.#.*', 'order')).to.be.false;
+    });
+    it('must deliver to exact and pattern subscribers', () => {
+        const r = new TopicRouter<number>();
+        const received: Array<[string, ITopicMessage<number>]> = [];
+        r.subscribe('order.eu.created', msg => received.push(['exact', msg]));
+        r.subscribe('order.*.created', msg => received.push(['star', msg]));
+        r.subscribe('order.#', msg => received.push(['hash', msg]));
+        r.subscribe('user.#', msg => received.push(['user', msg]));
+        r.emit('order.eu.created', 1);
+        const msg = {topic: 'order.eu.created', data: 1};
+        expect(received).to.eql([['exact', msg], ['star', msg], ['hash', msg]]);
+    });
+    it('must not deliver to patterns added during the emit', () => {
+        const r = new TopicRouter<number>();
+        const log: string[] = [];
+        r.subscribe('user.*', m => {
+            log.push(`first ${m.data}`);
+            r.subscribe('user.#', n => log.push(`late ${n.data}`));
+        });
+        r.emit('user.login', 1);
+        expect(log).to.eql(['first 1']);
+    });
+    it('must throw on wildcard topics', () => {
+        const r = new TopicRouter();
+        expect(() => {
+            r.emit('order.*', 1);
+        }).to.throw('Invalid topic "order.*".');
+    });
+    it('must report statistics per pattern', () => {
+        const r = new TopicRouter();
+        r.subscribe('order.#', dummy, {name: 'orders'});
+        r.subscribe('order.#', dummy);
+        r.once('user.*', dummy);
+        expect(r.count).to.eq(3);
+        expect(r.getStat()).to.eql({
+            'order.#': {named: {orders: 1}, unnamed: 1},
+            'user.*': {named: {}, unnamed: 1}
+        });
+    });
+    it('must remove patterns without subscriptions', () => {
+        const r = new TopicRouter<number>();
+        const sub1 = r.subscribe('order.#', dummy);
+        const sub2 = r.subscribe('order.#', dummy);
+        sub1.cancel();
+        expect(Object.keys(r.getStat())).to.eql(['order.#']);
+        sub2.cancel();
+        expect(r.getStat()).to.eql({});
+        r.once('user.*', dummy);
+        r.emit('user.login', 1);
+        expect(r.getStat()).to.eql({});
+    });
+    it('must cancel all subscriptions', () => {
+        const r = new TopicRouter();
+        const sub = r.subscribe('order.#', dummy);
+        r.subscribe('user.*', dummy);
+        expect(r.cancelAll()).to.eq(2);
+        expect(sub.live).to.be.false;
+        expect(r.count).to.eq(0);
+        expect(r.getStat()).to.eql({});
+    });
+    it('must not keep patterns without created subscriptions', function () {
+        if (typeof AbortController === 'undefined') {
+            this.skip(); // requires AbortController support
+        }
+        const r = new TopicRouter<number>();
+        const ac = new AbortController();
+        ac.abort();
+        const sub = r.subscribe('a.#', dummy, {signal: ac.signal});
+        r.once('b.#', dummy, {signal: ac.signal});
+        expect(sub.live).to.be.false;
+        expect(r.getStat()).to.eql({});
+    });
+});